@@ -1,10 +1,11 @@
 
-import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import IDEView from './components/IDEView';
 import WorkspaceModal from './components/WorkspaceModal';
 import { getInitialWorkspaceData, createChatFromWorkspace } from './services/geminiService';
-import type { WorkspaceType, Workspace, ChatMessage, UserChatMessage, ModelChatMessage, FileEntry } from './types';
+import type { WorkspaceType, Workspace, ChatMessage, UserChatMessage, ModelChatMessage, FileEntry, SaveData } from './types';
 import SpinnerIcon from './components/icons/SpinnerIcon';
+import { REPLAY_DIRECTORY, pruneReplays } from './lib/replay';
 
 const generateId = () => `id-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
@@ -52,6 +53,8 @@ const extractJsonFromString = (text: string): any | null => {
 };
 
 const STORAGE_KEY = 'ai-game-studio-state-v3'; // Incremented version for new data structure
+// Running games flush their saves several times a second; batch those into one write.
+const PERSIST_DELAY_MS = 500;
 
 const App: React.FC = () => {
     const [workspaces, setWorkspaces] = useState<Record<string, Workspace>>({});
@@ -82,16 +85,42 @@ const App: React.FC = () => {
         }
     }, []);
 
-    // Save to localStorage whenever state changes
-    useEffect(() => {
-        if (!isInitialized) return; // Don't save until after initial load
+    // Save to localStorage whenever state changes, at most once per PERSIST_DELAY_MS.
+    // The latest state waits in a ref so a steady stream of updates can't postpone the write forever.
+    const pendingStateRef = useRef<{ workspaces: Record<string, Workspace>; activeWorkspaceId: string | null } | null>(null);
+    const persistTimeoutRef = useRef<number | null>(null);
+
+    const flushPendingState = useCallback(() => {
+        if (persistTimeoutRef.current !== null) {
+            window.clearTimeout(persistTimeoutRef.current);
+            persistTimeoutRef.current = null;
+        }
+        const stateToSave = pendingStateRef.current;
+        if (!stateToSave) return;
+        pendingStateRef.current = null;
         try {
-            const stateToSave = { workspaces, activeWorkspaceId };
             localStorage.setItem(STORAGE_KEY, JSON.stringify(stateToSave));
         } catch (error) {
             console.error("Failed to save state to localStorage:", error);
         }
-    }, [workspaces, activeWorkspaceId, isInitialized]);
+    }, []);
+
+    useEffect(() => {
+        if (!isInitialized) return; // Don't save until after initial load
+        pendingStateRef.current = { workspaces, activeWorkspaceId };
+        if (persistTimeoutRef.current === null) {
+            persistTimeoutRef.current = window.setTimeout(flushPendingState, PERSIST_DELAY_MS);
+        }
+    }, [workspaces, activeWorkspaceId, isInitialized, flushPendingState]);
+
+    // Don't lose the last few changes when the tab is closed or reloaded.
+    useEffect(() => {
+        window.addEventListener('pagehide', flushPendingState);
+        return () => {
+            window.removeEventListener('pagehide', flushPendingState);
+            flushPendingState();
+        };
+    }, [flushPendingState]);
     
     const activeWorkspace = useMemo(() => {
         return activeWorkspaceId ? workspaces[activeWorkspaceId] : null;
@@ -171,11 +200,13 @@ const App: React.FC = () => {
             setWorkspaces(prev => {
                 const currentWs = prev[activeWorkspace.id];
                 const finalHistory = [...currentWs.chatHistory.filter(m => m.id !== userMessage.id), userMessage, modelMessage];
+                // Recorded replays are IDE data the AI never sees in full, so keep them across generations.
+                const keptReplays = currentWs.files.filter(f => f.path.startsWith(REPLAY_DIRECTORY) && !files.some((nf: FileEntry) => nf.path === f.path));
                 return {
                     ...prev,
                     [activeWorkspace.id]: {
                         ...currentWs,
-                        files: files as FileEntry[],
+                        files: [...(files as FileEntry[]), ...keptReplays],
                         chatHistory: finalHistory,
                         lastModified: Date.now(),
                     }
@@ -267,9 +298,10 @@ const App: React.FC = () => {
     const handleUpdateFileContent = useCallback((path: string, content: string) => {
         if (!activeWorkspace) return;
         
-        const newFiles = activeWorkspace.files.map(file => 
-            file.path === path ? { ...file, content } : file
-        );
+        const exists = activeWorkspace.files.some(file => file.path === path);
+        const newFiles = exists
+            ? activeWorkspace.files.map(file => file.path === path ? { ...file, content } : file)
+            : [...activeWorkspace.files, { path, content }];
 
         setWorkspaces(prev => ({
             ...prev,
@@ -278,6 +310,30 @@ const App: React.FC = () => {
 
     }, [activeWorkspace]);
 
+    // Writes a replay file, then trims the saved replays so they can't fill up localStorage.
+    const handleSaveReplay = useCallback((path: string, content: string) => {
+        if (!activeWorkspace) return;
+
+        const exists = activeWorkspace.files.some(file => file.path === path);
+        const newFiles = pruneReplays(exists
+            ? activeWorkspace.files.map(file => file.path === path ? { ...file, content } : file)
+            : [...activeWorkspace.files, { path, content }]);
+
+        setWorkspaces(prev => ({
+            ...prev,
+            [activeWorkspace.id]: { ...prev[activeWorkspace.id], files: newFiles, lastModified: Date.now() }
+        }));
+    }, [activeWorkspace]);
+
+    // Game saves change during play, so unlike file edits they don't bump lastModified.
+    const handleUpdateSaveData = useCallback((saveData: SaveData | null) => {
+        if (!activeWorkspace) return;
+        setWorkspaces(prev => ({
+            ...prev,
+            [activeWorkspace.id]: { ...prev[activeWorkspace.id], saveData }
+        }));
+    }, [activeWorkspace]);
+
     const handleReturnToLauncher = useCallback(() => {
         setActiveWorkspaceId(null);
     }, []);
@@ -313,6 +369,8 @@ const App: React.FC = () => {
                 onDeleteWorkspace={() => handleDeleteWorkspace(activeWorkspace.id)}
                 onReturnToLauncher={handleReturnToLauncher}
                 onUpdateFileContent={handleUpdateFileContent}
+                onSaveReplay={handleSaveReplay}
+                onUpdateSaveData={handleUpdateSaveData}
             />
         </div>
     );
@@ -1,6 +1,6 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, ModelChatMessage } from '../types';
+import { ChatMessage, ModelChatMessage, ChatAttachment } from '../types';
 import AIIcon from './icons/AIIcon';
 import SpinnerIcon from './icons/SpinnerIcon';
 import ThumbsUpIcon from './icons/ThumbsUpIcon';
@@ -14,6 +14,9 @@ interface ChatPanelProps {
     onDeleteWorkspace: () => void;
     onPositiveFeedback: (messageId: string) => void;
     onRetry: (prompt: string) => void;
+    // Extra context (such as a performance profile) appended to the next prompt sent.
+    attachment?: ChatAttachment | null;
+    onRemoveAttachment?: () => void;
 }
 
 const ThinkingBlock: React.FC<{ thinking: string }> = ({ thinking }) => (
@@ -33,7 +36,7 @@ const isModelMessage = (msg: ChatMessage): msg is ModelChatMessage => {
 };
 
 
-const ChatPanel: React.FC<ChatPanelProps> = ({ history, isLoading, onSend, onDeleteWorkspace, onPositiveFeedback, onRetry }) => {
+const ChatPanel: React.FC<ChatPanelProps> = ({ history, isLoading, onSend, onDeleteWorkspace, onPositiveFeedback, onRetry, attachment = null, onRemoveAttachment }) => {
     const [prompt, setPrompt] = useState('');
     const historyEndRef = useRef<HTMLDivElement | null>(null);
 
@@ -43,8 +46,9 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ history, isLoading, onSend, onDel
 
     const handleSend = () => {
         if (prompt.trim() && !isLoading) {
-            onSend(prompt.trim());
+            onSend(attachment ? `${prompt.trim()}\n\n${attachment.text}` : prompt.trim());
             setPrompt('');
+            onRemoveAttachment?.();
         }
     };
     
@@ -119,6 +123,12 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ history, isLoading, onSend, onDel
             </div>
 
             <footer className="flex-shrink-0 mt-4 pt-4 border-t border-gray-800/70">
+                {attachment && (
+                    <div className="mb-2 flex items-center justify-between gap-2 text-xs bg-blue-500/10 text-blue-300 rounded-md px-2 py-1" title={attachment.text}>
+                        <span className="truncate">Attached: {attachment.label}</span>
+                        <button onClick={onRemoveAttachment} className="flex-shrink-0 px-1 rounded hover:bg-white/10 hover:text-white" aria-label="Remove attachment">×</button>
+                    </div>
+                )}
                  <div className="relative">
                     <textarea
                         value={prompt}
@@ -1,9 +1,15 @@
 
-import React, { useRef, useEffect } from 'react';
-import { FileEntry } from '../types';
+import React, { useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
+import { FileEntry, EngineReplay, SaveData } from '../types';
 
 interface GamePreviewProps {
     files: FileEntry[];
+    // When set, the game boots with the replay's seed and plays back its recorded input.
+    replay?: EngineReplay | null;
+    // The workspace's saves, handed to Engine.save when the game boots.
+    saves?: SaveData | null;
+    // Whether the debug overlay starts on. Exported builds never get this flag, which keeps Engine.debug off there.
+    debug?: boolean;
 }
 
 const mimeTypeMap: { [key: string]: string } = {
@@ -19,6 +25,11 @@ const mimeTypeMap: { [key: string]: string } = {
     mp3: 'audio/mpeg',
     wav: 'audio/wav',
     ogg: 'audio/ogg',
+    gltf: 'model/gltf+json',
+    glb: 'model/gltf-binary',
+    glsl: 'text/plain',
+    vert: 'text/plain',
+    frag: 'text/plain',
     mp4: 'video/mp4',
     webm: 'video/webm',
     ttf: 'font/ttf',
@@ -27,9 +38,19 @@ const mimeTypeMap: { [key: string]: string } = {
     woff2: 'font/woff2',
 };
 
+const toScriptJson = (value: unknown): string => JSON.stringify(value).replace(/</g, '\\u003c');
 
-const GamePreview: React.FC<GamePreviewProps> = ({ files }) => {
+// The parent gets the iframe itself so it can talk to the running game with postMessage.
+const GamePreview = forwardRef<HTMLIFrameElement | null, GamePreviewProps>(({ files, replay = null, saves = null, debug = false }, ref) => {
     const iframeRef = useRef<HTMLIFrameElement | null>(null);
+    // The running game writes its own saves back, so new save data must not reload the preview;
+    // it is read from a ref whenever the preview is (re)built for other reasons.
+    const savesRef = useRef(saves);
+    savesRef.current = saves;
+    // The debug toggle reaches a running game by message; a ref keeps it across reloads too.
+    const debugRef = useRef(debug);
+    debugRef.current = debug;
+    useImperativeHandle(ref, () => iframeRef.current as HTMLIFrameElement, []);
 
     useEffect(() => {
         const iframe = iframeRef.current;
@@ -83,6 +104,18 @@ const GamePreview: React.FC<GamePreviewProps> = ({ files }) => {
                 }
             });
 
+            // Expose the path-to-blob map so the engine can load project files at runtime
+            // (models, textures, sounds). It must run before any module script.
+            const projectFilesScript = doc.createElement('script');
+            projectFilesScript.textContent = `window.__PROJECT_FILES__ = ${JSON.stringify(Object.fromEntries(fileBlobUrls))};`;
+            // Saves and replays carry game data; escape '<' so none of it can close the script tag.
+            projectFilesScript.textContent += `window.__ENGINE_SAVES__ = ${toScriptJson(savesRef.current)};`;
+            projectFilesScript.textContent += `window.__ENGINE_DEBUG__ = ${debugRef.current};`;
+            if (replay) {
+                projectFilesScript.textContent += `window.__ENGINE_REPLAY__ = ${toScriptJson(replay)};`;
+            }
+            doc.head.prepend(projectFilesScript);
+
             // Set the iframe content using srcdoc for better security and isolation.
             iframe.srcdoc = doc.documentElement.outerHTML;
 
@@ -96,7 +129,7 @@ const GamePreview: React.FC<GamePreviewProps> = ({ files }) => {
         return () => {
             createdUrls.forEach(url => URL.revokeObjectURL(url));
         };
-    }, [files]);
+    }, [files, replay]);
 
     return (
         <iframe
@@ -106,6 +139,8 @@ const GamePreview: React.FC<GamePreviewProps> = ({ files }) => {
             className="w-full h-full border-0"
         />
     );
-};
+});
+
+GamePreview.displayName = 'GamePreview';
 
 export default GamePreview;
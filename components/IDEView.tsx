@@ -5,7 +5,7 @@ import AIIcon from './icons/AIIcon';
 import PlayIcon from './icons/PlayIcon';
 import GamePreview from './GamePreview';
 import ChatPanel from './ChatPanel';
-import { Workspace, FileEntry, LogEntry } from '../types';
+import { Workspace, FileEntry, LogEntry, EngineReplay, SaveData, ProfileSample, ChatAttachment } from '../types';
 import RefreshIcon from './icons/RefreshIcon';
 import FullscreenIcon from './icons/FullscreenIcon';
 import DownloadIcon from './icons/DownloadIcon';
@@ -15,7 +15,18 @@ import ArrowLeftIcon from './icons/ArrowLeftIcon';
 import FileExplorer from './FileExplorer';
 import PanelLeftIcon from './icons/PanelLeftIcon';
 import Console from './Console';
+import SaveDataPanel from './SaveDataPanel';
+import ProfilerPanel from './ProfilerPanel';
 import TerminalIcon from './icons/TerminalIcon';
+import PauseIcon from './icons/PauseIcon';
+import StepIcon from './icons/StepIcon';
+import RecordIcon from './icons/RecordIcon';
+import ReplayIcon from './icons/ReplayIcon';
+import DatabaseIcon from './icons/DatabaseIcon';
+import ChartIcon from './icons/ChartIcon';
+import BugIcon from './icons/BugIcon';
+import { AUTOFIX_REPLAY_PATH, MAX_REPLAY_SIZE, createReplayPath, describeReplay, isReplayPath, parseReplay } from '../lib/replay';
+import { appendProfileFrames, describeProfile } from '../lib/profile';
 
 
 declare global {
@@ -34,15 +45,29 @@ interface IDEViewProps {
     onDeleteWorkspace: () => void;
     onReturnToLauncher: () => void;
     onUpdateFileContent: (path: string, content: string) => void;
+    onSaveReplay: (path: string, content: string) => void;
+    onUpdateSaveData: (saveData: SaveData | null) => void;
 }
 
-const IDEView: React.FC<IDEViewProps> = ({ activeWorkspace, isLoading, onGenerate, onPositiveFeedback, onRetry, onRenameWorkspace, onDeleteWorkspace, onReturnToLauncher, onUpdateFileContent }) => {
+const IDEView: React.FC<IDEViewProps> = ({ activeWorkspace, isLoading, onGenerate, onPositiveFeedback, onRetry, onRenameWorkspace, onDeleteWorkspace, onReturnToLauncher, onUpdateFileContent, onSaveReplay, onUpdateSaveData }) => {
     const [isChatVisible, setChatVisible] = useState(true);
     const [isExplorerVisible, setExplorerVisible] = useState(true);
     const [isPreviewVisible, setPreviewVisible] = useState(true);
     const [isConsoleVisible, setConsoleVisible] = useState(true);
+    const [isSaveDataVisible, setSaveDataVisible] = useState(false);
+    const [isProfilerVisible, setProfilerVisible] = useState(false);
+    const [latestProfile, setLatestProfile] = useState<ProfileSample | null>(null);
+    const [profileHistory, setProfileHistory] = useState<[number, number][]>([]);
+    const [chatAttachment, setChatAttachment] = useState<ChatAttachment | null>(null);
     const [refreshKey, setRefreshKey] = useState(0);
+    const [isGamePaused, setGamePaused] = useState(false);
+    const [isDebugEnabled, setDebugEnabled] = useState(false);
+    // The replay playing in the preview, with the files it was started against.
+    const [activeReplay, setActiveReplay] = useState<{ replay: EngineReplay; files: FileEntry[] } | null>(null);
     const previewContainerRef = useRef<HTMLDivElement>(null);
+    const previewFrameRef = useRef<HTMLIFrameElement | null>(null);
+    // The error waiting for the game to hand over its replay before the auto-fix prompt is sent.
+    const pendingFixRef = useRef<{ errorMessage: string; timeoutId: number } | null>(null);
     const codeBlockRef = useRef<HTMLElement>(null);
     const [activePath, setActivePath] = useState('scripts/game.js');
     const [logs, setLogs] = useState<LogEntry[]>([]);
@@ -57,6 +82,21 @@ const IDEView: React.FC<IDEViewProps> = ({ activeWorkspace, isLoading, onGenerat
         return file || activeWorkspace.files.find(f => f.path === 'scripts/game.js') || activeWorkspace.files.find(f => f.path === 'index.html') || activeWorkspace.files[0];
     }, [activePath, activeWorkspace.files]);
 
+    // Saving a replay adds a workspace file; keep the preview's file list stable so that
+    // doesn't restart the running game.
+    const previewFilesRef = useRef<FileEntry[]>([]);
+    const previewFiles = useMemo(() => {
+        const next = activeWorkspace.files.filter(f => !isReplayPath(f.path));
+        const previous = previewFilesRef.current;
+        if (next.length === previous.length && next.every((file, i) => file === previous[i])) return previous;
+        previewFilesRef.current = next;
+        return next;
+    }, [activeWorkspace.files]);
+
+    // A replay only reproduces the session on the code it was recorded against, so any edit or
+    // generation sends the reloaded preview back to live play.
+    const previewReplay = activeReplay && activeReplay.files === previewFiles ? activeReplay.replay : null;
+
     useEffect(() => {
         // Ensure activePath is valid, reset if not
         if (!activeWorkspace.files.some(f => f.path === activePath)) {
@@ -66,11 +106,21 @@ const IDEView: React.FC<IDEViewProps> = ({ activeWorkspace, isLoading, onGenerat
 
     useEffect(() => {
         const handleMessage = (event: MessageEvent) => {
+            // Controls and the profile graph follow the current game only, not a preview that is being replaced.
+            const fromCurrentGame = event.source === previewFrameRef.current?.contentWindow;
             if (event.data?.type === 'console' && event.data?.payload) {
                 const { type, message } = event.data.payload;
                 if (typeof type === 'string' && typeof message === 'string') {
                     setLogs(prevLogs => [...prevLogs.slice(-200), { type, message }]);
                 }
+            } else if (event.data?.type === 'engine-state' && event.data?.payload && fromCurrentGame) {
+                setGamePaused(Boolean(event.data.payload.paused));
+                // The game can toggle its own overlay with Engine.debug, so follow what it reports.
+                if (typeof event.data.payload.debug === 'boolean') setDebugEnabled(event.data.payload.debug);
+            } else if (event.data?.type === 'engine-profile' && Array.isArray(event.data?.payload?.frames) && fromCurrentGame) {
+                const sample = event.data.payload as ProfileSample;
+                setLatestProfile(sample);
+                setProfileHistory(prevHistory => appendProfileFrames(prevHistory, sample));
             }
         };
 
@@ -85,11 +135,77 @@ const IDEView: React.FC<IDEViewProps> = ({ activeWorkspace, isLoading, onGenerat
         setLogs([]);
     }, []);
 
-    const handleAutoFixRequest = useCallback((errorMessage: string) => {
-        if (isLoading) return;
-        const fixPrompt = `[VIBECODE_FIX_REQUEST] My game crashed with the following error. Please analyze the code and fix it.\n\nError:\n${errorMessage}`;
+    const sendFixRequest = useCallback((errorMessage: string, replayNote = '') => {
+        const fixPrompt = `[VIBECODE_FIX_REQUEST] My game crashed with the following error. Please analyze the code and fix it.\n\nError:\n${errorMessage}${replayNote}`;
         onGenerate(fixPrompt);
-    }, [onGenerate, isLoading]);
+    }, [onGenerate]);
+
+    const postToGame = useCallback((message: Record<string, unknown>): boolean => {
+        const target = previewFrameRef.current?.contentWindow;
+        if (!target) return false;
+        target.postMessage(message, '*');
+        return true;
+    }, []);
+
+    const handleAutoFixRequest = useCallback((errorMessage: string) => {
+        if (isLoading || pendingFixRef.current) return;
+        // Ask the game for its recorded session first; a frozen or missing preview just gets the error.
+        if (!postToGame({ type: 'engine-control', action: 'exportReplay', purpose: 'autofix' })) {
+            sendFixRequest(errorMessage);
+            return;
+        }
+        const timeoutId = window.setTimeout(() => {
+            pendingFixRef.current = null;
+            sendFixRequest(errorMessage);
+        }, 1500);
+        pendingFixRef.current = { errorMessage, timeoutId };
+    }, [isLoading, postToGame, sendFixRequest]);
+
+    useEffect(() => {
+        const handleReplayMessage = (event: MessageEvent) => {
+            if (event.data?.type !== 'engine-replay' || !event.data?.payload?.replay) return;
+            if (event.source !== previewFrameRef.current?.contentWindow) return;
+            const { purpose, replay } = event.data.payload as { purpose: string; replay: EngineReplay };
+            const path = purpose === 'autofix' ? AUTOFIX_REPLAY_PATH : createReplayPath();
+            const content = JSON.stringify(replay);
+            // Storing an oversized replay could push the workspace past the localStorage quota.
+            const stored = content.length <= MAX_REPLAY_SIZE;
+            if (stored) {
+                onSaveReplay(path, content);
+                setLogs(prevLogs => [...prevLogs.slice(-200), { type: 'info', message: `Saved a ${replay.frames.length}-frame replay to ${path}.` }]);
+            } else {
+                setLogs(prevLogs => [...prevLogs.slice(-200), { type: 'error', message: `The ${replay.frames.length}-frame replay is too large to store in the workspace (${Math.round(content.length / 1024)} KB).` }]);
+            }
+            const pendingFix = pendingFixRef.current;
+            if (purpose === 'autofix' && pendingFix) {
+                window.clearTimeout(pendingFix.timeoutId);
+                pendingFixRef.current = null;
+                const whereSaved = stored ? `is saved at ${path}` : 'was too large to save';
+                sendFixRequest(pendingFix.errorMessage, `\n\nA replay of this session ${whereSaved}. It was recorded with:\n${describeReplay(replay)}`);
+            }
+        };
+
+        window.addEventListener('message', handleReplayMessage);
+
+        return () => {
+            window.removeEventListener('message', handleReplayMessage);
+        };
+    }, [onSaveReplay, sendFixRequest]);
+
+    useEffect(() => {
+        const handleSaveMessage = (event: MessageEvent) => {
+            if (event.data?.type !== 'engine-save' || !event.data?.payload) return;
+            // A preview that is being replaced may still flush its saves; only the current game counts.
+            if (event.source !== previewFrameRef.current?.contentWindow) return;
+            onUpdateSaveData(event.data.payload as SaveData);
+        };
+
+        window.addEventListener('message', handleSaveMessage);
+
+        return () => {
+            window.removeEventListener('message', handleSaveMessage);
+        };
+    }, [onUpdateSaveData]);
 
 
     useEffect(() => {
@@ -131,11 +247,68 @@ const IDEView: React.FC<IDEViewProps> = ({ activeWorkspace, isLoading, onGenerat
         }
     }
 
+    const resetProfile = () => {
+        setLatestProfile(null);
+        setProfileHistory([]);
+    };
+
     const handleRefresh = () => {
         setLogs([]);
+        resetProfile();
+        setGamePaused(false);
+        setActiveReplay(null);
         setRefreshKey(prevKey => prevKey + 1);
     }
 
+    const sendEngineControl = useCallback((action: 'pause' | 'resume' | 'step', frames?: number) => {
+        postToGame({ type: 'engine-control', action, frames });
+    }, [postToGame]);
+
+    // The running game keeps its own copy of the saves, so restart it after a wipe.
+    const handleWipeSaveSlot = useCallback((slot: string) => {
+        const slots = { ...(activeWorkspace.saveData?.slots || {}) };
+        delete slots[slot];
+        onUpdateSaveData({ format: activeWorkspace.saveData?.format ?? 1, slots });
+        setGamePaused(false);
+        setRefreshKey(prevKey => prevKey + 1);
+    }, [activeWorkspace.saveData, onUpdateSaveData]);
+
+    const handleWipeSaveData = useCallback(() => {
+        onUpdateSaveData(null);
+        setGamePaused(false);
+        setRefreshKey(prevKey => prevKey + 1);
+    }, [onUpdateSaveData]);
+
+    const handleAttachProfile = useCallback(() => {
+        if (!latestProfile) return;
+        setChatAttachment({ label: `Performance profile (${latestProfile.fps.toFixed(0)} fps)`, text: describeProfile(latestProfile, profileHistory) });
+        setChatVisible(true);
+    }, [latestProfile, profileHistory]);
+
+    const handleToggleDebug = useCallback(() => {
+        const enabled = !isDebugEnabled;
+        setDebugEnabled(enabled);
+        postToGame({ type: 'engine-control', action: 'debug', enabled });
+    }, [isDebugEnabled, postToGame]);
+
+    const handleSaveReplay = useCallback(() => {
+        postToGame({ type: 'engine-control', action: 'exportReplay', purpose: 'save' });
+    }, [postToGame]);
+
+    const handlePlayReplay = useCallback(() => {
+        const replay = activeFile ? parseReplay(activeFile.content) : null;
+        if (!replay) {
+            setLogs(prevLogs => [...prevLogs.slice(-200), { type: 'error', message: `${activeFile?.path} is not a valid replay file.` }]);
+            return;
+        }
+        setLogs([]);
+        resetProfile();
+        setGamePaused(false);
+        setActiveReplay({ replay, files: previewFiles });
+        setPreviewVisible(true);
+        setRefreshKey(prevKey => prevKey + 1);
+    }, [activeFile, previewFiles]);
+
     const handleToggleFullscreen = useCallback(() => {
         if (!previewContainerRef.current) return;
         if (!document.fullscreenElement) {
@@ -176,7 +349,7 @@ const IDEView: React.FC<IDEViewProps> = ({ activeWorkspace, isLoading, onGenerat
     return (
         <div className="relative flex h-screen w-screen bg-black text-gray-300 font-sans">
              <div className={`bg-[#121212] flex flex-col flex-shrink-0 border-r border-gray-800/70 transition-all duration-300 ease-in-out ${isChatVisible ? 'w-[380px]' : 'w-0'}`}>
-                {isChatVisible && <ChatPanel history={activeWorkspace.chatHistory} onSend={onGenerate} isLoading={isLoading} onDeleteWorkspace={onDeleteWorkspace} onPositiveFeedback={onPositiveFeedback} onRetry={onRetry} />}
+                {isChatVisible && <ChatPanel history={activeWorkspace.chatHistory} onSend={onGenerate} isLoading={isLoading} onDeleteWorkspace={onDeleteWorkspace} onPositiveFeedback={onPositiveFeedback} onRetry={onRetry} attachment={chatAttachment} onRemoveAttachment={() => setChatAttachment(null)} />}
             </div>
             
             <div className="flex-1 flex flex-col overflow-hidden">
@@ -201,9 +374,18 @@ const IDEView: React.FC<IDEViewProps> = ({ activeWorkspace, isLoading, onGenerat
                     <div className="flex items-center gap-1">
                         <button onClick={handleDownload} className="p-1.5 text-gray-400 rounded-md hover:text-white hover:bg-white/10" aria-label="Download Project"><DownloadIcon className="w-5 h-5" /></button>
                         <button onClick={handleRefresh} className="p-1.5 text-gray-400 rounded-md hover:text-white hover:bg-white/10" aria-label="Refresh Preview"><RefreshIcon className="w-5 h-5" /></button>
+                        <button onClick={() => sendEngineControl(isGamePaused ? 'resume' : 'pause')} className="p-1.5 text-gray-400 rounded-md hover:text-white hover:bg-white/10" aria-label={isGamePaused ? 'Resume Game' : 'Pause Game'}>{isGamePaused ? <PlayIcon className="w-5 h-5 text-blue-500" /> : <PauseIcon className="w-5 h-5" />}</button>
+                        <button onClick={() => sendEngineControl('step', 1)} className="p-1.5 text-gray-400 rounded-md hover:text-white hover:bg-white/10" aria-label="Step One Frame" title="Step one frame (pauses the game)"><StepIcon className="w-5 h-5" /></button>
+                        <button onClick={handleToggleDebug} className="p-1.5 text-gray-400 rounded-md hover:text-white hover:bg-white/10" aria-label={isDebugEnabled ? 'Hide Debug Overlay' : 'Show Debug Overlay'} title="Draw hitboxes, velocities and the camera target"><BugIcon className={`w-5 h-5 transition-colors ${isDebugEnabled ? 'text-blue-500' : 'text-gray-400'}`} /></button>
+                        <button onClick={handleSaveReplay} className="p-1.5 text-gray-400 rounded-md hover:text-white hover:bg-white/10" aria-label="Save Replay" title="Save this session's input to replays/"><RecordIcon className="w-5 h-5" /></button>
+                        {activeFile && isReplayPath(activeFile.path) && (
+                            <button onClick={handlePlayReplay} className="p-1.5 text-gray-400 rounded-md hover:text-white hover:bg-white/10" aria-label="Play Replay" title={`Play ${activeFile.path} in the preview`}><ReplayIcon className={`w-5 h-5 ${previewReplay ? 'text-blue-500' : ''}`} /></button>
+                        )}
                         <button onClick={handleToggleFullscreen} className="p-1.5 text-gray-400 rounded-md hover:text-white hover:bg-white/10" aria-label="Toggle Fullscreen"><FullscreenIcon className="w-5 h-5" /></button>
                         <button onClick={() => setPreviewVisible(!isPreviewVisible)} className="p-1.5 text-gray-400 rounded-md hover:text-white hover:bg-white/10" aria-label={isPreviewVisible ? 'Hide Preview' : 'Show Preview'}><PlayIcon className={`w-5 h-5 transition-colors ${isPreviewVisible ? 'text-blue-500' : 'text-gray-400'}`} /></button>
                         <button onClick={() => setConsoleVisible(!isConsoleVisible)} className="p-1.5 text-gray-400 rounded-md hover:text-white hover:bg-white/10" aria-label={isConsoleVisible ? 'Hide Console' : 'Show Console'}><TerminalIcon className={`w-5 h-5 transition-colors ${isConsoleVisible ? 'text-blue-500' : 'text-gray-400'}`} /></button>
+                        <button onClick={() => setSaveDataVisible(!isSaveDataVisible)} className="p-1.5 text-gray-400 rounded-md hover:text-white hover:bg-white/10" aria-label={isSaveDataVisible ? 'Hide Save Data' : 'Show Save Data'}><DatabaseIcon className={`w-5 h-5 transition-colors ${isSaveDataVisible ? 'text-blue-500' : 'text-gray-400'}`} /></button>
+                        <button onClick={() => setProfilerVisible(!isProfilerVisible)} className="p-1.5 text-gray-400 rounded-md hover:text-white hover:bg-white/10" aria-label={isProfilerVisible ? 'Hide Performance' : 'Show Performance'}><ChartIcon className={`w-5 h-5 transition-colors ${isProfilerVisible ? 'text-blue-500' : 'text-gray-400'}`} /></button>
                     </div>
                 </header>
 
@@ -225,13 +407,23 @@ const IDEView: React.FC<IDEViewProps> = ({ activeWorkspace, isLoading, onGenerat
                             {/* Preview */}
                             <div ref={previewContainerRef} className={`relative flex flex-col h-full bg-black transition-all duration-300 ease-in-out border-l border-gray-800/70 ${isPreviewVisible ? 'flex-1' : 'w-0'}`}>
                                 {isPreviewVisible && (
-                                <GamePreview key={refreshKey} files={activeWorkspace.files} />
+                                <GamePreview key={refreshKey} ref={previewFrameRef} files={previewFiles} replay={previewReplay} saves={activeWorkspace.saveData} debug={isDebugEnabled} />
                                 )}
                             </div>
                         </div>
-                        {/* Bottom area: Console */}
-                        <div className={`bg-[#0d0d0d] overflow-hidden flex flex-col transition-all duration-300 ease-in-out ${isConsoleVisible ? 'h-1/3 max-h-[50vh] border-t-2 border-gray-800/70' : 'h-0'}`}>
-                            {isConsoleVisible && <Console logs={logs} onClear={handleClearConsole} onAutoFix={handleAutoFixRequest} />}
+                        {/* Bottom area: Console, Performance & Save Data */}
+                        <div className={`bg-[#0d0d0d] overflow-hidden flex flex-row transition-all duration-300 ease-in-out ${isConsoleVisible || isProfilerVisible || isSaveDataVisible ? 'h-1/3 max-h-[50vh] border-t-2 border-gray-800/70' : 'h-0'}`}>
+                            {isConsoleVisible && <div className="flex-1 min-w-0"><Console logs={logs} onClear={handleClearConsole} onAutoFix={handleAutoFixRequest} /></div>}
+                            {isProfilerVisible && (
+                                <div className={`${isConsoleVisible ? 'w-80 border-l border-gray-800/70' : 'flex-1'} min-w-0`}>
+                                    <ProfilerPanel latest={latestProfile} history={profileHistory} onAttach={handleAttachProfile} />
+                                </div>
+                            )}
+                            {isSaveDataVisible && (
+                                <div className={`${isConsoleVisible || isProfilerVisible ? 'w-80 border-l border-gray-800/70' : 'flex-1'} min-w-0`}>
+                                    <SaveDataPanel saveData={activeWorkspace.saveData} onWipeSlot={handleWipeSaveSlot} onWipeAll={handleWipeSaveData} />
+                                </div>
+                            )}
                         </div>
                     </div>
                 </main>
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ProfileSample } from '../types';
+import { PROFILE_HISTORY_FRAMES, LONG_FRAME_MS } from '../lib/profile';
+import AIIcon from './icons/AIIcon';
+
+interface ProfilerPanelProps {
+    latest: ProfileSample | null;
+    history: [number, number][];
+    onAttach: () => void;
+}
+
+const GRAPH_HEIGHT = 60;
+const GRAPH_MAX_MS = 50;
+
+const barColor = (ms: number) => ms > LONG_FRAME_MS ? '#f87171' : ms > 17 ? '#facc15' : '#4ade80';
+const toGraphY = (ms: number) => GRAPH_HEIGHT - (Math.min(ms, GRAPH_MAX_MS) / GRAPH_MAX_MS) * GRAPH_HEIGHT;
+
+const ProfilerPanel: React.FC<ProfilerPanelProps> = ({ latest, history, onAttach }) => {
+    const offset = PROFILE_HISTORY_FRAMES - history.length;
+
+    return (
+        <div className="flex flex-col h-full bg-[#0d0d0d] font-mono text-xs text-gray-400">
+            <header className="flex-shrink-0 bg-[#121212] border-b border-gray-800/70 flex justify-between items-center px-3 py-1">
+                <h2 className="font-semibold text-sm text-gray-200 uppercase tracking-wider">Performance</h2>
+                <button
+                    onClick={onAttach}
+                    disabled={!latest}
+                    className="bg-blue-500/10 text-blue-300 px-2 py-0.5 rounded text-xs font-semibold hover:bg-blue-500/30 flex items-center gap-1.5 transition-all disabled:opacity-30 disabled:hover:bg-blue-500/10"
+                    title="Attach this profile to your next AI prompt"
+                >
+                    <AIIcon className="w-3 h-3" />
+                    Attach to Prompt
+                </button>
+            </header>
+            <div className="flex-grow p-2 overflow-y-auto">
+                {!latest ? (
+                    <div className="text-gray-500 italic p-2">Waiting for the game to report frame timings...</div>
+                ) : (
+                    <>
+                        <svg viewBox={`0 0 ${PROFILE_HISTORY_FRAMES} ${GRAPH_HEIGHT}`} preserveAspectRatio="none" className="w-full h-16 bg-black rounded" aria-label="Frame time graph">
+                            {history.map(([interval, work], i) => (
+                                <g key={i}>
+                                    <rect x={offset + i} y={toGraphY(interval)} width={1} height={GRAPH_HEIGHT - toGraphY(interval)} fill={barColor(interval)} opacity={0.7} />
+                                    <rect x={offset + i} y={toGraphY(work)} width={1} height={GRAPH_HEIGHT - toGraphY(work)} fill="#60a5fa" />
+                                </g>
+                            ))}
+                            <line x1={0} x2={PROFILE_HISTORY_FRAMES} y1={toGraphY(1000 / 60)} y2={toGraphY(1000 / 60)} stroke="#4b5563" strokeDasharray="2 2" strokeWidth={0.5} />
+                            <line x1={0} x2={PROFILE_HISTORY_FRAMES} y1={toGraphY(LONG_FRAME_MS)} y2={toGraphY(LONG_FRAME_MS)} stroke="#7f1d1d" strokeDasharray="2 2" strokeWidth={0.5} />
+                        </svg>
+                        <div className="mt-2 text-gray-200">
+                            {latest.fps.toFixed(0)} fps · {latest.frameMs.toFixed(1)} ms · worst {latest.worstFrameMs.toFixed(1)} ms
+                            {latest.longFrames > 0 && <span className="text-red-400"> · {latest.longFrames} long</span>}
+                        </div>
+                        <div className="mt-1">code {latest.workMs.toFixed(2)} ms: {Object.entries<number>(latest.phases).map(([phase, ms]) => `${phase} ${ms.toFixed(2)}`).join(' · ')}</div>
+                        <div className="mt-1">{Object.entries<number>(latest.counts).map(([name, value]) => `${name} ${value}`).join(' · ')}</div>
+                        {latest.heapMB !== null && (
+                            <div className="mt-1">heap {latest.heapMB.toFixed(1)} MB{latest.gcEvents > 0 && <span className="text-yellow-300"> · GC ×{latest.gcEvents}</span>}</div>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ProfilerPanel;
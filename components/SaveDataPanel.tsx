@@ -0,0 +1,61 @@
+import React from 'react';
+import { SaveData, SaveSlot } from '../types';
+import TrashIcon from './icons/TrashIcon';
+
+interface SaveDataPanelProps {
+    saveData: SaveData | null | undefined;
+    onWipeSlot: (slot: string) => void;
+    onWipeAll: () => void;
+}
+
+const SaveDataPanel: React.FC<SaveDataPanelProps> = ({ saveData, onWipeSlot, onWipeAll }) => {
+    const slots = Object.entries<SaveSlot>(saveData?.slots || {});
+
+    return (
+        <div className="flex flex-col h-full bg-[#0d0d0d] font-mono text-xs text-gray-400">
+            <header className="flex-shrink-0 bg-[#121212] border-b border-gray-800/70 flex justify-between items-center px-3 py-1">
+                <h2 className="font-semibold text-sm text-gray-200 uppercase tracking-wider">Save Data</h2>
+                <button
+                    onClick={() => {
+                        if (window.confirm('Wipe all save data for this workspace? The preview will restart.')) {
+                            onWipeAll();
+                        }
+                    }}
+                    disabled={slots.length === 0}
+                    className="p-1 text-gray-400 rounded hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                    aria-label="Wipe all save data"
+                    title="Wipe all save data"
+                >
+                    <TrashIcon className="w-4 h-4" />
+                </button>
+            </header>
+            <div className="flex-grow p-2 overflow-y-auto">
+                {slots.length === 0 ? (
+                    <div className="text-gray-500 italic p-2">No save data. Games store progress here with Engine.save.</div>
+                ) : (
+                    slots.map(([name, slot]) => (
+                        <div key={name} className="border-b border-gray-900/70 py-1.5 group">
+                            <div className="flex items-center justify-between">
+                                <span className="text-gray-200 font-semibold">{name}</span>
+                                <div className="flex items-center gap-2">
+                                    <span className="text-gray-500">v{slot.version} · {new Date(slot.updatedAt).toLocaleString()}</span>
+                                    <button
+                                        onClick={() => onWipeSlot(name)}
+                                        className="p-1 rounded text-gray-600 hover:text-red-400 hover:bg-red-500/10 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        aria-label={`Wipe save slot ${name}`}
+                                        title="Wipe this slot"
+                                    >
+                                        <TrashIcon className="w-3 h-3" />
+                                    </button>
+                                </div>
+                            </div>
+                            <pre className="mt-1 whitespace-pre-wrap break-words text-gray-400">{JSON.stringify(slot.data, null, 2)}</pre>
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SaveDataPanel;
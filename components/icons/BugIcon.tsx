@@ -0,0 +1,18 @@
+import React from 'react';
+
+const BugIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <rect x="8" y="6" width="8" height="14" rx="4" />
+        <path d="m8 2 1.9 1.9" />
+        <path d="M16 2l-1.9 1.9" />
+        <path d="M9 7.1V7a3 3 0 0 1 6 0v.1" />
+        <path d="M3 13h5" />
+        <path d="M16 13h5" />
+        <path d="M4 7l4 2" />
+        <path d="M20 7l-4 2" />
+        <path d="M4 19l4-2" />
+        <path d="M20 19l-4-2" />
+    </svg>
+);
+
+export default BugIcon;
@@ -0,0 +1,10 @@
+import React from 'react';
+
+const StepIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M5 4v16l11-8-11-8Z" />
+        <path d="M19 5v14" />
+    </svg>
+);
+
+export default StepIcon;
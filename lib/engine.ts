@@ -65,278 +65,3809 @@ export const getEngineScript = (workspaceType: WorkspaceType): string => {
     })();
     `;
 
+    // Uniform-grid broadphase shared by both engines. Items are inserted with 2D or 3D
+    // bounds; queries return the items whose cells overlap, and callers do the exact test.
+    const spatialHash = `
+        function createSpatialHash(cellSize) {
+            const cells = new Map();
+            // Items spanning too many cells are kept aside and tested on every query.
+            const oversized = new Set();
+            const MAX_CELLS_PER_ITEM = 64;
+
+            const cellRange = (min, max) => {
+                const lo = min.map(v => Math.floor(v / cellSize));
+                const hi = max.map(v => Math.floor(v / cellSize));
+                let count = 1;
+                for (let i = 0; i < lo.length; i++) count *= hi[i] - lo[i] + 1;
+                return { lo, hi, count };
+            };
+
+            const forEachCell = ({ lo, hi }, fn) => {
+                for (let x = lo[0]; x <= hi[0]; x++) {
+                    for (let y = lo[1]; y <= hi[1]; y++) {
+                        if (lo.length === 2) {
+                            fn(x + ',' + y);
+                        } else {
+                            for (let z = lo[2]; z <= hi[2]; z++) fn(x + ',' + y + ',' + z);
+                        }
+                    }
+                }
+            };
+
+            return {
+                clear: () => {
+                    cells.clear();
+                    oversized.clear();
+                },
+                insert: (item, min, max) => {
+                    if (!min.concat(max).every(Number.isFinite)) return;
+                    const range = cellRange(min, max);
+                    if (range.count > MAX_CELLS_PER_ITEM) {
+                        oversized.add(item);
+                        return;
+                    }
+                    forEachCell(range, key => {
+                        let cell = cells.get(key);
+                        if (!cell) {
+                            cell = [];
+                            cells.set(key, cell);
+                        }
+                        cell.push(item);
+                    });
+                },
+                query: (min, max) => {
+                    const found = new Set(oversized);
+                    if (!min.concat(max).every(Number.isFinite)) return [...found];
+                    const range = cellRange(min, max);
+                    if (range.count > MAX_CELLS_PER_ITEM * 16) {
+                        cells.forEach(cell => cell.forEach(item => found.add(item)));
+                    } else {
+                        forEachCell(range, key => {
+                            const cell = cells.get(key);
+                            if (cell) cell.forEach(item => found.add(item));
+                        });
+                    }
+                    return [...found];
+                }
+            };
+        }
+
+        // Collision layers are plain names; a mask is a list of layer names (null = everything).
+        function normalizeMask(mask) {
+            if (mask === null || mask === undefined) return null;
+            return Array.isArray(mask) ? mask : [mask];
+        }
+
+        function layersCollide(layerA, maskA, layerB, maskB) {
+            return (!maskA || maskA.includes(layerB)) && (!maskB || maskB.includes(layerA));
+        }
+
+        function inLayers(layer, layers) {
+            return !layers || normalizeMask(layers).includes(layer);
+        }
+    `;
+
+    // Scene manager shared by both engines. Scenes live on a stack so a pause menu can be
+    // pushed over gameplay; only the top scene updates. Entities created while a scene is on
+    // top belong to it and are removed through Engine.destroy when that scene exits.
+    // Scene changes are applied at the start of the next frame, never mid-update.
+    const sceneManager = `
+        const sceneRegistry = new Map();
+        const sceneStack = [];
+        let pendingSceneChange = null;
+        let sceneTransition = null;
+
+        function currentSceneEntry() {
+            return sceneStack[sceneStack.length - 1] || null;
+        }
+
+        function trackSceneEntity(entity) {
+            const entry = currentSceneEntry();
+            if (entry) entry.entities.add(entity);
+            return entity;
+        }
+
+        function untrackSceneEntity(entity) {
+            sceneStack.forEach(entry => entry.entities.delete(entity));
+        }
+
+        function enterScene(name, params) {
+            const scene = sceneRegistry.get(name);
+            sceneStack.push({ name, scene, entities: new Set() });
+            if (scene.enter) scene.enter(params);
+        }
+
+        function exitTopScene() {
+            const entry = sceneStack.pop();
+            if (entry.scene.exit) entry.scene.exit();
+            [...entry.entities].forEach(entity => window.Engine.destroy(entity));
+        }
+
+        function applySceneChange({ mode, name, params }) {
+            if (mode === 'go') {
+                while (sceneStack.length) exitTopScene();
+                enterScene(name, params);
+            } else if (mode === 'push') {
+                const top = currentSceneEntry();
+                if (top && top.scene.pause) top.scene.pause();
+                enterScene(name, params);
+            } else if (mode === 'pop' && sceneStack.length) {
+                exitTopScene();
+                const top = currentSceneEntry();
+                if (top && top.scene.resume) top.scene.resume(params);
+            }
+        }
+
+        function requestSceneChange(change, { transition = 'none', duration = 0.5, color = 'black' } = {}) {
+            if (change.mode !== 'pop' && !sceneRegistry.has(change.name)) {
+                console.error('Unknown scene: ' + change.name);
+                return;
+            }
+            if (transition === 'fade' && duration > 0) {
+                sceneTransition = { change, duration, color, time: 0, switched: false };
+            } else {
+                pendingSceneChange = change;
+            }
+        }
+
+        function updateScenes(deltaTime) {
+            if (pendingSceneChange) {
+                const change = pendingSceneChange;
+                pendingSceneChange = null;
+                applySceneChange(change);
+            }
+            if (sceneTransition) {
+                sceneTransition.time += deltaTime;
+                // The actual switch happens while the screen is fully covered.
+                if (!sceneTransition.switched && sceneTransition.time >= sceneTransition.duration / 2) {
+                    sceneTransition.switched = true;
+                    applySceneChange(sceneTransition.change);
+                }
+                if (sceneTransition.time >= sceneTransition.duration) sceneTransition = null;
+            }
+            const top = currentSceneEntry();
+            if (top && top.scene.update) top.scene.update(deltaTime);
+        }
+
+        // Returns the colour and opacity of the transition overlay, or null when idle.
+        function getSceneTransitionCover() {
+            if (!sceneTransition) return null;
+            const half = sceneTransition.duration / 2;
+            const t = sceneTransition.time;
+            const alpha = t < half ? t / half : (sceneTransition.duration - t) / half;
+            return { color: sceneTransition.color, alpha: Math.max(0, Math.min(1, alpha)) };
+        }
+
+        const scenesApi = {
+            define: (name, scene = {}) => { sceneRegistry.set(name, scene); },
+            go: (name, params, options) => requestSceneChange({ mode: 'go', name, params }, options),
+            push: (name, params, options) => requestSceneChange({ mode: 'push', name, params }, options),
+            pop: (params, options) => requestSceneChange({ mode: 'pop', params }, options),
+            current: () => {
+                const top = currentSceneEntry();
+                return top ? top.name : null;
+            }
+        };
+    `;
+
+    // Entity-component-system layer shared by both engines. Entities are the engine's own
+    // sprites or meshes; components are plain data objects stored by name. Systems run once
+    // per frame after Engine.onUpdate, sorted by their order and then registration order.
+    const ecsWorld = `
+        const componentStores = new Map();
+        let systems = [];
+        let systemSequence = 0;
+
+        function getComponentStore(name) {
+            let store = componentStores.get(name);
+            if (!store) {
+                store = new Map();
+                componentStores.set(name, store);
+            }
+            return store;
+        }
+
+        function removeEntityComponents(entity) {
+            componentStores.forEach(store => store.delete(entity));
+        }
+
+        function hasComponents(entity, names) {
+            return names.every(name => getComponentStore(name).has(entity));
+        }
+
+        function getComponents(entity, names) {
+            const components = {};
+            names.forEach(name => { components[name] = getComponentStore(name).get(entity); });
+            return components;
+        }
+
+        function queryEntities(names) {
+            if (names.length === 0) return [];
+            return [...getComponentStore(names[0]).keys()].filter(entity => hasComponents(entity, names));
+        }
+
+        function runSystems(deltaTime) {
+            systems.forEach(system => {
+                if (!system.enabled) return;
+                const entities = queryEntities(system.query);
+                if (system.update) system.update(entities, deltaTime);
+                if (system.each) {
+                    entities.forEach(entity => {
+                        // An earlier entity's system code may have destroyed this one.
+                        if (!hasComponents(entity, system.query)) return;
+                        system.each(entity, getComponents(entity, system.query), deltaTime);
+                    });
+                }
+            });
+        }
+
+        const worldApi = {
+            addComponent: (entity, name, data = {}) => {
+                getComponentStore(name).set(entity, data);
+                return data;
+            },
+            removeComponent: (entity, name) => { getComponentStore(name).delete(entity); },
+            getComponent: (entity, name) => getComponentStore(name).get(entity),
+            hasComponent: (entity, name) => getComponentStore(name).has(entity),
+            query: (...names) => queryEntities(names),
+            addSystem: ({ name = null, query = [], order = 0, update = null, each = null }) => {
+                const system = { name, query, order, update, each, enabled: true, sequence: systemSequence++ };
+                systems.push(system);
+                systems.sort((a, b) => a.order - b.order || a.sequence - b.sequence);
+                return system;
+            },
+            removeSystem: (nameOrSystem) => {
+                systems = systems.filter(system => system !== nameOrSystem && (system.name === null || system.name !== nameOrSystem));
+            }
+        };
+    `;
+
+    // Tweening shared by both engines. A tween animates every number reachable through its
+    // 'to' object: plain sprite fields, nested objects such as position/rotation/scale or
+    // material, [x, y, z] arrays on vectors, and colours given as hex or CSS strings.
+    const tweenLibrary = `
+        const easings = {
+            linear: t => t,
+            easeInQuad: t => t * t,
+            easeOutQuad: t => t * (2 - t),
+            easeInOutQuad: t => t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t,
+            easeInCubic: t => t * t * t,
+            easeOutCubic: t => 1 - Math.pow(1 - t, 3),
+            easeInOutCubic: t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+            easeInSine: t => 1 - Math.cos(t * Math.PI / 2),
+            easeOutSine: t => Math.sin(t * Math.PI / 2),
+            easeInOutSine: t => -(Math.cos(Math.PI * t) - 1) / 2,
+            easeInBack: t => 2.70158 * t * t * t - 1.70158 * t * t,
+            easeOutBack: t => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2),
+            easeOutElastic: t => t === 0 || t === 1 ? t : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * (2 * Math.PI) / 3) + 1,
+            easeOutBounce: t => {
+                if (t < 1 / 2.75) return 7.5625 * t * t;
+                if (t < 2 / 2.75) return 7.5625 * (t -= 1.5 / 2.75) * t + 0.75;
+                if (t < 2.5 / 2.75) return 7.5625 * (t -= 2.25 / 2.75) * t + 0.9375;
+                return 7.5625 * (t -= 2.625 / 2.75) * t + 0.984375;
+            }
+        };
+        let activeTweens = [];
+
+        function collectTweenTracks(target, to, tracks) {
+            Object.keys(to).forEach(key => {
+                const value = to[key];
+                const current = target[key];
+                if (current && current.isColor && (typeof value !== 'object' || value.isColor)) {
+                    const color = current.clone().set(value);
+                    ['r', 'g', 'b'].forEach(c => tracks.push({ object: current, key: c, from: current[c], to: color[c] }));
+                } else if (typeof value === 'number') {
+                    tracks.push({ object: target, key, from: current, to: value });
+                } else if (Array.isArray(value) && current && typeof current === 'object') {
+                    ['x', 'y', 'z', 'w'].slice(0, value.length).forEach((axis, i) => tracks.push({ object: current, key: axis, from: current[axis], to: value[i] }));
+                } else if (value && typeof value === 'object' && current && typeof current === 'object') {
+                    collectTweenTracks(current, value, tracks);
+                }
+            });
+        }
+
+        function applyTween(tween, progress) {
+            const eased = tween.ease(tween.reversed ? 1 - progress : progress);
+            tween.tracks.forEach(track => {
+                track.object[track.key] = track.from + (track.to - track.from) * eased;
+            });
+            if (tween.onUpdate) tween.onUpdate(tween.target, eased);
+        }
+
+        function createTween(target, { to = {}, duration = 1, easing = 'linear', delay = 0, yoyo = false, repeat = 0, onUpdate = null, onComplete = null } = {}) {
+            const tween = {
+                target, to, delay, yoyo, repeat, onUpdate, onComplete,
+                duration: Math.max(0, duration),
+                ease: typeof easing === 'function' ? easing : (easings[easing] || easings.linear),
+                tracks: null,
+                elapsed: 0,
+                reversed: false,
+                paused: false,
+                done: false
+            };
+            // The promise resolves with true when the tween completes and false when cancelled.
+            const promise = new Promise(resolve => {
+                tween.finish = (completed) => {
+                    tween.done = true;
+                    resolve(completed);
+                };
+            });
+            activeTweens.push(tween);
+            return {
+                pause: () => { tween.paused = true; },
+                resume: () => { tween.paused = false; },
+                cancel: () => { if (!tween.done) tween.finish(false); },
+                isActive: () => !tween.done,
+                promise
+            };
+        }
+
+        function updateTweens(deltaTime) {
+            activeTweens.forEach(tween => {
+                if (tween.done || tween.paused) return;
+                tween.elapsed += deltaTime;
+                if (tween.elapsed < tween.delay) return;
+                // Start values are read when the delay ends, not when the tween is created.
+                if (!tween.tracks) {
+                    tween.tracks = [];
+                    collectTweenTracks(tween.target, tween.to, tween.tracks);
+                }
+
+                const active = tween.elapsed - tween.delay;
+                if (active < tween.duration) {
+                    applyTween(tween, active / tween.duration);
+                    return;
+                }
+                applyTween(tween, 1);
+                if (tween.repeat > 0) {
+                    tween.repeat--;
+                    if (tween.yoyo) tween.reversed = !tween.reversed;
+                    tween.elapsed = tween.delay + (tween.duration > 0 ? (active - tween.duration) % tween.duration : 0);
+                    return;
+                }
+                if (tween.onComplete) tween.onComplete(tween.target);
+                tween.finish(true);
+            });
+            activeTweens = activeTweens.filter(tween => !tween.done);
+        }
+
+        function cancelTweensOf(target) {
+            activeTweens.forEach(tween => {
+                if (tween.target === target && !tween.done) tween.finish(false);
+            });
+        }
+    `;
+
+    // Input shared by both engines. Every physical input is a "source" with a value from 0
+    // to 1: keyboard codes ('Space'), mouse buttons ('Mouse:Left'), touch regions
+    // ('Touch:right-half'), a floating virtual joystick on the left half of the screen
+    // ('Touch:StickLeft') and gamepad buttons or stick directions ('Gamepad0:A',
+    // 'Gamepad:LeftStickUp' for any pad). Actions are named lists of sources. Each engine
+    // defines updatePointerWorld(pointer) to map the pointer into its world space. Pointer
+    // movement and wheel deltas accumulate between frames and are published by pollInput().
+    const inputSystem = `
+        const keyAliases = {
+            'space': 'Space', 'enter': 'Enter', 'escape': 'Escape', 'shift': 'ShiftLeft', 'control': 'ControlLeft',
+            'arrowleft': 'ArrowLeft', 'arrowright': 'ArrowRight', 'arrowup': 'ArrowUp', 'arrowdown': 'ArrowDown',
+            'keyw': 'KeyW', 'keya': 'KeyA', 'keys': 'KeyS', 'keyd': 'KeyD'
+        };
+        const mouseButtons = ['Mouse:Left', 'Mouse:Middle', 'Mouse:Right'];
+        const gamepadButtons = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'LS', 'RS', 'DpadUp', 'DpadDown', 'DpadLeft', 'DpadRight', 'Home'];
+        const touchRegionNames = ['any', 'left-half', 'right-half', 'top-half', 'bottom-half', 'left-third', 'center-third', 'right-third'];
+        const stickDirections = ['StickLeft', 'StickRight', 'StickUp', 'StickDown'];
+        const GAMEPAD_DEADZONE = 0.25;
+        const JOYSTICK_RADIUS = 60;
+
+        const heldSources = new Map();
+        let downSinceLastFrame = new Set();
+        let upSinceLastFrame = new Set();
+        let pressedThisFrame = new Set();
+        let releasedThisFrame = new Set();
+        const actionBindings = new Map();
+        const activeTouches = new Map();
+        const virtualJoystick = { touchId: null, originX: 0, originY: 0, x: 0, y: 0 };
+        const pointerState = { x: 0, y: 0, ndcX: 0, ndcY: 0, worldX: 0, worldY: 0, worldZ: 0, deltaX: 0, deltaY: 0, wheel: 0, isDown: false, locked: false };
+        const pendingPointer = { deltaX: 0, deltaY: 0, wheel: 0 };
+
+        function normalizeSource(name) {
+            if (name.includes(':')) return name;
+            const lower = name.toLowerCase().replace(/ /g, '');
+            if (keyAliases[lower]) return keyAliases[lower];
+            if (/^[a-z]$/.test(lower)) return 'Key' + lower.toUpperCase();
+            if (/^[0-9]$/.test(lower)) return 'Digit' + lower;
+            return name;
+        }
+
+        function setSource(source, value) {
+            const wasHeld = heldSources.has(source);
+            if (value > 0) {
+                heldSources.set(source, value);
+                if (!wasHeld) downSinceLastFrame.add(source);
+            } else if (wasHeld) {
+                heldSources.delete(source);
+                upSinceLastFrame.add(source);
+            }
+        }
+
+        function updatePointer(clientX, clientY) {
+            const rect = canvas.getBoundingClientRect();
+            pointerState.x = clientX - rect.left;
+            pointerState.y = clientY - rect.top;
+            pointerState.ndcX = (pointerState.x / rect.width) * 2 - 1;
+            pointerState.ndcY = -(pointerState.y / rect.height) * 2 + 1;
+        }
+
+        function refreshTouchSources() {
+            const rect = canvas.getBoundingClientRect();
+            const values = {};
+            activeTouches.forEach(touch => {
+                const regions = ['any'];
+                regions.push(touch.x < rect.width / 2 ? 'left-half' : 'right-half');
+                regions.push(touch.y < rect.height / 2 ? 'top-half' : 'bottom-half');
+                regions.push(touch.x < rect.width / 3 ? 'left-third' : touch.x < rect.width * 2 / 3 ? 'center-third' : 'right-third');
+                regions.forEach(region => { values[region] = 1; });
+            });
+            if (virtualJoystick.touchId !== null) {
+                const dx = Math.max(-1, Math.min(1, (virtualJoystick.x - virtualJoystick.originX) / JOYSTICK_RADIUS));
+                const dy = Math.max(-1, Math.min(1, (virtualJoystick.y - virtualJoystick.originY) / JOYSTICK_RADIUS));
+                values.StickLeft = Math.max(0, -dx);
+                values.StickRight = Math.max(0, dx);
+                values.StickUp = Math.max(0, -dy);
+                values.StickDown = Math.max(0, dy);
+            }
+            touchRegionNames.concat(stickDirections).forEach(name => setSource('Touch:' + name, values[name] || 0));
+        }
+
+        function handleTouches(event) {
+            event.preventDefault();
+            const rect = canvas.getBoundingClientRect();
+            const previousTouches = new Map(activeTouches);
+            activeTouches.clear();
+            Array.from(event.touches).forEach(touch => {
+                activeTouches.set(touch.identifier, { x: touch.clientX - rect.left, y: touch.clientY - rect.top });
+            });
+            // Dragging any finger other than the joystick one moves the pointer, e.g. to orbit a camera.
+            const dragTouch = [...activeTouches.keys()].find(id => id !== virtualJoystick.touchId && previousTouches.has(id));
+            if (event.type === 'touchmove' && dragTouch !== undefined) {
+                pendingPointer.deltaX += activeTouches.get(dragTouch).x - previousTouches.get(dragTouch).x;
+                pendingPointer.deltaY += activeTouches.get(dragTouch).y - previousTouches.get(dragTouch).y;
+            }
+            Array.from(event.changedTouches).forEach(touch => {
+                const position = activeTouches.get(touch.identifier);
+                if (event.type === 'touchstart' && virtualJoystick.touchId === null && position && position.x < rect.width / 2) {
+                    virtualJoystick.touchId = touch.identifier;
+                    virtualJoystick.originX = virtualJoystick.x = position.x;
+                    virtualJoystick.originY = virtualJoystick.y = position.y;
+                }
+            });
+            if (virtualJoystick.touchId !== null) {
+                const position = activeTouches.get(virtualJoystick.touchId);
+                if (position) {
+                    virtualJoystick.x = position.x;
+                    virtualJoystick.y = position.y;
+                } else {
+                    virtualJoystick.touchId = null;
+                }
+            }
+            if (event.touches.length > 0) updatePointer(event.touches[0].clientX, event.touches[0].clientY);
+            pointerState.isDown = event.touches.length > 0;
+            refreshTouchSources();
+        }
+
+        function pollGamepads() {
+            const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+            const values = new Map();
+            const record = (index, name, value) => {
+                if (value <= 0) return;
+                ['Gamepad' + index + ':' + name, 'Gamepad:' + name].forEach(source => {
+                    values.set(source, Math.max(values.get(source) || 0, value));
+                });
+            };
+            const stick = (value) => Math.abs(value) < GAMEPAD_DEADZONE ? 0 : value;
+            for (const pad of pads) {
+                if (!pad) continue;
+                pad.buttons.forEach((button, i) => {
+                    if (gamepadButtons[i]) record(pad.index, gamepadButtons[i], button.value || (button.pressed ? 1 : 0));
+                });
+                const [lx = 0, ly = 0, rx = 0, ry = 0] = pad.axes.map(stick);
+                record(pad.index, 'LeftStickLeft', -lx);
+                record(pad.index, 'LeftStickRight', lx);
+                record(pad.index, 'LeftStickUp', -ly);
+                record(pad.index, 'LeftStickDown', ly);
+                record(pad.index, 'RightStickLeft', -rx);
+                record(pad.index, 'RightStickRight', rx);
+                record(pad.index, 'RightStickUp', -ry);
+                record(pad.index, 'RightStickDown', ry);
+            }
+            heldSources.forEach((value, source) => {
+                if (source.startsWith('Gamepad') && !values.has(source)) setSource(source, 0);
+            });
+            values.forEach((value, source) => setSource(source, value));
+        }
+
+        // Called once at the start of every frame, before any game code runs. During a replay
+        // the recorded state replaces live input (see inputRecorder).
+        function pollInput() {
+            if (replayState.active) {
+                applyReplayInput();
+            } else {
+                pollGamepads();
+                pressedThisFrame = downSinceLastFrame;
+                releasedThisFrame = upSinceLastFrame;
+                downSinceLastFrame = new Set();
+                upSinceLastFrame = new Set();
+                pointerState.deltaX = pendingPointer.deltaX;
+                pointerState.deltaY = pendingPointer.deltaY;
+                pointerState.wheel = pendingPointer.wheel;
+                pendingPointer.deltaX = pendingPointer.deltaY = pendingPointer.wheel = 0;
+            }
+            updatePointerWorld(pointerState);
+            recordInputFrame();
+        }
+
+        function drawVirtualJoystick(context) {
+            if (virtualJoystick.touchId === null) return;
+            context.save();
+            context.globalAlpha = 0.3;
+            context.strokeStyle = 'white';
+            context.fillStyle = 'white';
+            context.lineWidth = 2;
+            context.beginPath();
+            context.arc(virtualJoystick.originX, virtualJoystick.originY, JOYSTICK_RADIUS, 0, Math.PI * 2);
+            context.stroke();
+            const dx = virtualJoystick.x - virtualJoystick.originX;
+            const dy = virtualJoystick.y - virtualJoystick.originY;
+            const scale = Math.min(1, JOYSTICK_RADIUS / (Math.hypot(dx, dy) || 1));
+            context.beginPath();
+            context.arc(virtualJoystick.originX + dx * scale, virtualJoystick.originY + dy * scale, JOYSTICK_RADIUS / 3, 0, Math.PI * 2);
+            context.fill();
+            context.restore();
+        }
+
+        document.addEventListener('keydown', (e) => setSource(e.code, 1));
+        document.addEventListener('keyup', (e) => setSource(e.code, 0));
+        window.addEventListener('blur', () => {
+            [...heldSources.keys()].forEach(source => {
+                if (!source.startsWith('Gamepad')) setSource(source, 0);
+            });
+        });
+        canvas.addEventListener('mousedown', (e) => {
+            updatePointer(e.clientX, e.clientY);
+            pointerState.isDown = true;
+            if (mouseButtons[e.button]) setSource(mouseButtons[e.button], 1);
+        });
+        window.addEventListener('mouseup', (e) => {
+            pointerState.isDown = false;
+            if (mouseButtons[e.button]) setSource(mouseButtons[e.button], 0);
+        });
+        window.addEventListener('mousemove', (e) => {
+            updatePointer(e.clientX, e.clientY);
+            pendingPointer.deltaX += e.movementX || 0;
+            pendingPointer.deltaY += e.movementY || 0;
+        });
+        canvas.addEventListener('wheel', (e) => { pendingPointer.wheel += e.deltaY; }, { passive: true });
+        document.addEventListener('pointerlockchange', () => {
+            pointerState.locked = document.pointerLockElement === canvas;
+        });
+        canvas.addEventListener('contextmenu', (e) => e.preventDefault());
+        ['touchstart', 'touchmove', 'touchend', 'touchcancel'].forEach(type => {
+            canvas.addEventListener(type, handleTouches, { passive: false });
+        });
+
+        const sourcesFor = (name) => actionBindings.get(name) || [normalizeSource(name)];
+
+        const inputApi = {
+            bind: (action, sources) => {
+                actionBindings.set(action, (Array.isArray(sources) ? sources : [sources]).map(normalizeSource));
+            },
+            unbind: (action) => { actionBindings.delete(action); },
+            // Accepts an action name or a single source; quick taps count for one frame.
+            isPressed: (name) => sourcesFor(name).some(source => heldSources.has(source) || pressedThisFrame.has(source)),
+            wasPressed: (name) => sourcesFor(name).some(source => pressedThisFrame.has(source)),
+            wasReleased: (name) => sourcesFor(name).some(source => releasedThisFrame.has(source)),
+            getValue: (name) => Math.max(0, ...sourcesFor(name).map(source => heldSources.get(source) || 0)),
+            getAxis: (negative, positive) => inputApi.getValue(positive) - inputApi.getValue(negative),
+            // Browsers only grant pointer lock shortly after a click or key press.
+            lockPointer: () => { if (canvas.requestPointerLock) canvas.requestPointerLock(); },
+            unlockPointer: () => { if (document.pointerLockElement === canvas) document.exitPointerLock(); },
+            pointer: pointerState
+        };
+
+        inputApi.bind('left', ['ArrowLeft', 'KeyA', 'Gamepad:DpadLeft', 'Gamepad:LeftStickLeft', 'Touch:StickLeft']);
+        inputApi.bind('right', ['ArrowRight', 'KeyD', 'Gamepad:DpadRight', 'Gamepad:LeftStickRight', 'Touch:StickRight']);
+        inputApi.bind('up', ['ArrowUp', 'KeyW', 'Gamepad:DpadUp', 'Gamepad:LeftStickUp', 'Touch:StickUp']);
+        inputApi.bind('down', ['ArrowDown', 'KeyS', 'Gamepad:DpadDown', 'Gamepad:LeftStickDown', 'Touch:StickDown']);
+        inputApi.bind('jump', ['Space', 'Gamepad:A', 'Touch:right-half']);
+        inputApi.bind('pause', ['Escape', 'KeyP', 'Gamepad:Start']);
+    `;
+
+    // Input recording shared by both engines. Every frame's timing and the input state that
+    // pollInput() publishes are recorded from boot, so the boot seed plus the frames
+    // reproduce the session. When the preview injects window.__ENGINE_REPLAY__, the recorded
+    // frames are fed back instead of live input until they run out; IDE pause and step then
+    // hold the replay itself rather than game time, which the recording already covers.
+    // Replays are stored in the workspace, so recording stops once the frames would take more
+    // than MAX_RECORDING_SIZE characters of JSON (keep in step with MAX_REPLAY_SIZE in lib/replay.ts).
+    const inputRecorder = `
+        const MAX_RECORDING_SIZE = 256 * 1024;
+        const recordedPointerFields = ['x', 'y', 'ndcX', 'ndcY', 'deltaX', 'deltaY', 'wheel', 'isDown', 'locked'];
+        const recording = { active: true, seed: engineRandom.getSeed(), frames: [], size: 0, timing: null, lastHeld: '', lastPointer: '' };
+        const replayState = { active: false, frames: [], cursor: 0, held: false, pendingSteps: 0, advancing: false, heldSources: [], pointer: null };
+
+        if (bootReplay) {
+            replayState.active = true;
+            replayState.frames = bootReplay.frames;
+            console.info(\`Replaying \${bootReplay.frames.length} recorded frames (seed \${bootReplay.seed}).\`);
+        }
+
+        function finishReplay() {
+            replayState.active = false;
+            replayState.held = false;
+            heldSources.clear();
+            console.info('Replay finished; live input is back.');
+            postTimeState();
+        }
+
+        // Called by advanceTime() with the live timing; returns the timing the frame should use.
+        function syncFrameTiming(liveTiming) {
+            let timing = liveTiming;
+            if (replayState.active && replayState.cursor >= replayState.frames.length) finishReplay();
+            if (replayState.active) {
+                replayState.advancing = !replayState.held || replayState.pendingSteps > 0;
+                if (replayState.held && replayState.advancing) replayState.pendingSteps--;
+                const frame = replayState.frames[replayState.cursor];
+                timing = replayState.advancing ? { deltaTime: frame.dt, fixedSteps: frame.steps } : { deltaTime: 0, fixedSteps: 0 };
+            }
+            recording.timing = timing;
+            return timing;
+        }
+
+        // Called by pollInput() instead of reading live input.
+        function applyReplayInput() {
+            pendingPointer.deltaX = pendingPointer.deltaY = pendingPointer.wheel = 0;
+            downSinceLastFrame = new Set();
+            upSinceLastFrame = new Set();
+            pressedThisFrame = new Set();
+            releasedThisFrame = new Set();
+            if (replayState.advancing) {
+                const frame = replayState.frames[replayState.cursor++];
+                if (frame.held) replayState.heldSources = frame.held;
+                if (frame.pointer) replayState.pointer = frame.pointer;
+                pressedThisFrame = new Set(frame.pressed || []);
+                releasedThisFrame = new Set(frame.released || []);
+            }
+            // Live events may have touched these between frames, so reapply them every frame.
+            if (replayState.pointer) recordedPointerFields.forEach((field, i) => { pointerState[field] = replayState.pointer[i]; });
+            if (!replayState.advancing) pointerState.deltaX = pointerState.deltaY = pointerState.wheel = 0;
+            heldSources.clear();
+            replayState.heldSources.forEach(([source, value]) => heldSources.set(source, value));
+        }
+
+        function recordInputFrame() {
+            if (!recording.active || !recording.timing) return;
+            const frame = { dt: recording.timing.deltaTime, steps: recording.timing.fixedSteps };
+            if (pressedThisFrame.size > 0) frame.pressed = [...pressedThisFrame];
+            if (releasedThisFrame.size > 0) frame.released = [...releasedThisFrame];
+            const held = [...heldSources];
+            const heldKey = JSON.stringify(held);
+            if (heldKey !== recording.lastHeld) {
+                frame.held = held;
+                recording.lastHeld = heldKey;
+            }
+            const pointer = recordedPointerFields.map(field => pointerState[field]);
+            const pointerKey = JSON.stringify(pointer);
+            if (pointerKey !== recording.lastPointer) {
+                frame.pointer = pointer;
+                recording.lastPointer = pointerKey;
+            }
+            const size = JSON.stringify(frame).length + 1;
+            if (recording.size + size > MAX_RECORDING_SIZE) {
+                recording.active = false;
+                console.warn(\`Input recording stopped after \${recording.frames.length} frames: the replay reached its size limit.\`);
+                return;
+            }
+            recording.size += size;
+            recording.frames.push(frame);
+        }
+
+        function exportReplay() {
+            return {
+                version: REPLAY_VERSION,
+                engine: '${workspaceType}',
+                seed: recording.seed,
+                recordedAt: new Date().toISOString(),
+                saves: bootSaveStore,
+                frames: recording.frames.slice()
+            };
+        }
+
+        function postReplay(purpose) {
+            if (window.parent === window) return;
+            window.parent.postMessage({ type: 'engine-replay', payload: { purpose, replay: exportReplay() } }, '*');
+        }
+
+        // While replaying, the IDE's pause/resume/step controls hold the replay instead of game time.
+        function controlReplay(data) {
+            if (!replayState.active || !['pause', 'resume', 'step'].includes(data.action)) return false;
+            replayState.held = data.action !== 'resume';
+            replayState.pendingSteps = data.action === 'step' ? replayState.pendingSteps + Math.max(1, Math.floor(data.frames || 1)) : 0;
+            postTimeState();
+            return true;
+        }
+
+        window.addEventListener('message', (event) => {
+            const data = event.data;
+            if (data && data.type === 'engine-control' && data.action === 'exportReplay') postReplay(data.purpose || 'save');
+        });
+        // A fresh (or reloaded) game always starts running; let the IDE reset its controls.
+        postTimeState();
+
+        const replayApi = {
+            isRecording: () => recording.active,
+            isReplaying: () => replayState.active,
+            export: exportReplay,
+            // Asks the IDE to store the session so far under replays/ in the workspace.
+            save: () => postReplay('save')
+        };
+    `;
+
+    // The preview publishes a map of project paths to blob URLs as window.__PROJECT_FILES__,
+    // so engine loaders accept workspace paths ('models/hero.gltf') as well as full URLs.
+    const assetResolver = `
+        function normalizeProjectPath(path) {
+            const parts = [];
+            path.replace(/^\\.?\\//, '').split('/').forEach(part => {
+                if (part === '..') parts.pop();
+                else if (part !== '.' && part !== '') parts.push(part);
+            });
+            return parts.join('/');
+        }
+
+        function resolveAssetUrl(path) {
+            if (!path || /^(https?:|data:|blob:)/.test(path)) return path;
+            const projectFiles = window.__PROJECT_FILES__ || {};
+            return projectFiles[normalizeProjectPath(path)] || path;
+        }
+
+        // Shader options take either GLSL source or a path such as 'shaders/water.glsl'.
+        function isShaderPath(source) {
+            return typeof source === 'string' && /^[^\\n{;]+\\.(glsl|vert|frag)$/.test(source.trim());
+        }
+
+        // Resolves to the shader source, or null when a shader file fails to load.
+        function loadShaderSource(source) {
+            if (!isShaderPath(source)) return Promise.resolve(source);
+            return fetch(resolveAssetUrl(source.trim()))
+                .then(response => {
+                    if (!response.ok) throw new Error(response.statusText);
+                    return response.text();
+                })
+                .catch(() => {
+                    console.error('Failed to load shader: ' + source);
+                    return null;
+                });
+        }
+    `;
+
+    // Seeded randomness shared by both engines. The engine draws everything it randomises
+    // (ids, particles, camera shake) from one mulberry32 stream, and games are told to use
+    // Engine.random instead of Math.random, so the boot seed plus the recorded input
+    // replays a session exactly. A replay injected by the preview supplies its own seed.
+    const randomSystem = `
+        // mulberry32: small and fast, with a state that fits in one 32-bit integer.
+        function createSeededRandom(seed) {
+            let state = seed >>> 0;
+            return () => {
+                state = (state + 0x6D2B79F5) >>> 0;
+                let t = state;
+                t = Math.imul(t ^ (t >>> 15), t | 1);
+                t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+                return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+            };
+        }
+
+        // Strings ('level-3') hash to a seed so named streams are easy to reproduce.
+        function toSeed(value) {
+            if (typeof value === 'number') return Math.floor(value) >>> 0;
+            let hash = 2166136261;
+            for (const char of String(value)) hash = Math.imul(hash ^ char.charCodeAt(0), 16777619);
+            return hash >>> 0;
+        }
+
+        function createRandomApi(initialSeed) {
+            let currentSeed = toSeed(initialSeed);
+            let next = createSeededRandom(currentSeed);
+            const api = {
+                seed: (value) => {
+                    currentSeed = toSeed(value);
+                    next = createSeededRandom(currentSeed);
+                },
+                getSeed: () => currentSeed,
+                next: () => next(),
+                range: (min, max) => min + next() * (max - min),
+                int: (min, max) => Math.floor(min + next() * (max - min + 1)),
+                chance: (probability = 0.5) => next() < probability,
+                pick: (items) => items[Math.floor(next() * items.length)],
+                shuffle: (items) => {
+                    for (let i = items.length - 1; i > 0; i--) {
+                        const j = Math.floor(next() * (i + 1));
+                        [items[i], items[j]] = [items[j], items[i]];
+                    }
+                    return items;
+                },
+                // A separate stream, e.g. for level generation that must not shift with gameplay.
+                create: (seed) => createRandomApi(seed)
+            };
+            return api;
+        }
+
+        const REPLAY_VERSION = 1;
+        const injectedReplay = window.__ENGINE_REPLAY__ || null;
+        const bootReplay = injectedReplay && injectedReplay.version === REPLAY_VERSION && injectedReplay.engine === '${workspaceType}' && Array.isArray(injectedReplay.frames) ? injectedReplay : null;
+        if (injectedReplay && !bootReplay) console.warn('Ignoring replay: it was recorded by a different engine version or workspace type.');
+        const engineRandom = createRandomApi(bootReplay && bootReplay.seed !== undefined ? bootReplay.seed : Date.now() ^ Math.floor(performance.now() * 1000));
+        const nextRandom = () => engineRandom.next();
+    `;
+
+    // Game time shared by both engines. Raw frame deltas are clamped (a tab switch would
+    // otherwise teleport bodies through walls), scaled by time.scale and fed into a
+    // fixed-timestep accumulator that drives onFixedUpdate and physics. While paused,
+    // onUpdate still runs with a delta of 0 so games can read input to unpause; step()
+    // advances a paused game by whole fixed steps. The IDE drives pause/resume/step with
+    // 'engine-control' messages and is told about changes with 'engine-state' messages.
+    const timeSystem = `
+        const MAX_FRAME_DELTA = 0.1;
+        const MAX_FIXED_STEPS = 5;
+        const timeState = { scale: 1, paused: false, pendingSteps: 0, fixedStep: 1 / 60, accumulator: 0, elapsed: 0, frame: 0 };
+        let onFixedUpdateCallback = (fixedDeltaTime) => {};
+
+        function postTimeState() {
+            if (window.parent === window) return;
+            window.parent.postMessage({ type: 'engine-state', payload: { paused: timeState.paused || replayState.held, replaying: replayState.active, debug: debugState.enabled } }, '*');
+        }
+
+        function setPaused(paused) {
+            if (timeState.paused === paused) return;
+            timeState.paused = paused;
+            timeState.pendingSteps = 0;
+            postTimeState();
+        }
+
+        // Returns the frame's scaled delta and how many fixed steps to run this frame.
+        function advanceTime(rawDelta) {
+            let deltaTime = 0;
+            if (!timeState.paused) {
+                deltaTime = Math.min(Math.max(rawDelta, 0), MAX_FRAME_DELTA) * timeState.scale;
+            } else if (timeState.pendingSteps > 0) {
+                timeState.pendingSteps--;
+                deltaTime = timeState.fixedStep;
+            }
+            timeState.accumulator += deltaTime;
+            let fixedSteps = 0;
+            while (timeState.accumulator >= timeState.fixedStep - 1e-9 && fixedSteps < MAX_FIXED_STEPS) {
+                timeState.accumulator -= timeState.fixedStep;
+                fixedSteps++;
+            }
+            // Never let a backlog build up; a slow machine runs in slow motion instead.
+            timeState.accumulator = Math.min(Math.max(timeState.accumulator, 0), timeState.fixedStep);
+            const timing = syncFrameTiming({ deltaTime, fixedSteps });
+            timeState.elapsed += timing.deltaTime;
+            timeState.frame++;
+            return timing;
+        }
+
+        window.addEventListener('message', (event) => {
+            const data = event.data;
+            if (!data || data.type !== 'engine-control' || controlReplay(data)) return;
+            if (data.action === 'pause') setPaused(true);
+            else if (data.action === 'resume') setPaused(false);
+            else if (data.action === 'step') timeApi.step(data.frames);
+            else if (data.action === 'requestState') postTimeState();
+        });
+
+        const timeApi = {
+            get scale() { return timeState.scale; },
+            set scale(value) { timeState.scale = Math.max(0, value); },
+            get fixedStep() { return timeState.fixedStep; },
+            set fixedStep(value) { timeState.fixedStep = Math.max(1 / 240, value); },
+            get elapsed() { return timeState.elapsed; },
+            get frame() { return timeState.frame; },
+            get paused() { return timeState.paused; },
+            pause: () => setPaused(true),
+            resume: () => setPaused(false),
+            // Advances a paused game by the given number of fixed steps, one per rendered frame.
+            step: (frames = 1) => {
+                setPaused(true);
+                timeState.pendingSteps += Math.max(1, Math.floor(frames));
+            }
+        };
+    `;
+
+    // Save games shared by both engines. Data lives in named slots, each stamped with the
+    // game's schema version so saves written by an older build can be migrated forward.
+    // In the IDE preview the parent owns the data: it injects the workspace's saves as
+    // window.__ENGINE_SAVES__ and receives every change as an 'engine-save' message.
+    // Exported builds have no such parent and keep their saves in localStorage. A replay
+    // boots with the saves it was recorded against and never writes back.
+    const saveSystem = `
+        const SAVE_FORMAT = 1;
+        const SAVE_STORAGE_KEY = 'engine-save:' + location.pathname;
+        const saveBridge = window.__ENGINE_SAVES__ !== undefined && window.parent !== window;
+        const saveSchema = { version: 1, defaults: {}, migrations: {} };
+        const reportedSaveSlots = new Set();
+        const cloneSaveValue = (value) => value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+        let saveFlushTimer = null;
+        let activeSaveSlot = 'default';
+
+        function readSaveStore() {
+            let stored = null;
+            try {
+                stored = saveBridge ? window.__ENGINE_SAVES__ : JSON.parse(localStorage.getItem(SAVE_STORAGE_KEY) || 'null');
+            } catch (error) {
+                console.warn('Save data is unavailable in this browser; progress will be lost on reload.');
+            }
+            return stored && stored.format === SAVE_FORMAT && stored.slots ? cloneSaveValue(stored) : { format: SAVE_FORMAT, slots: {} };
+        }
+
+        let saveStore = bootReplay && bootReplay.saves ? cloneSaveValue(bootReplay.saves) : readSaveStore();
+        const bootSaveStore = cloneSaveValue(saveStore);
+
+        function flushSaves() {
+            clearTimeout(saveFlushTimer);
+            saveFlushTimer = null;
+            if (bootReplay) return;
+            if (saveBridge) {
+                window.parent.postMessage({ type: 'engine-save', payload: saveStore }, '*');
+                return;
+            }
+            try {
+                localStorage.setItem(SAVE_STORAGE_KEY, JSON.stringify(saveStore));
+            } catch (error) {
+                console.warn('Could not write save data: ' + error.message);
+            }
+        }
+
+        // Games often save every frame; coalesce those into one write.
+        function scheduleSaveFlush() {
+            if (saveFlushTimer === null) saveFlushTimer = setTimeout(flushSaves, 100);
+        }
+        window.addEventListener('pagehide', () => { if (saveFlushTimer !== null) flushSaves(); });
+
+        // Returns the slot brought up to the current schema version, creating it if asked.
+        function getSaveSlot(name, create = false) {
+            let slot = saveStore.slots[name];
+            if (!slot) {
+                if (!create) return null;
+                slot = saveStore.slots[name] = { version: saveSchema.version, updatedAt: Date.now(), data: {} };
+            }
+            if (slot.version > saveSchema.version) {
+                if (!reportedSaveSlots.has(name)) {
+                    reportedSaveSlots.add(name);
+                    console.warn(\`Save slot "\${name}" was written by schema version \${slot.version}, newer than this game's \${saveSchema.version}. It is left untouched.\`);
+                }
+                return slot;
+            }
+            const startVersion = slot.version;
+            while (slot.version < saveSchema.version) {
+                const migrate = saveSchema.migrations[slot.version + 1];
+                try {
+                    if (migrate) slot.data = migrate(slot.data) || slot.data;
+                } catch (error) {
+                    if (!reportedSaveSlots.has(name)) {
+                        reportedSaveSlots.add(name);
+                        console.error(\`Migrating save slot "\${name}" to version \${slot.version + 1} failed: \${error.message}\`);
+                    }
+                    break;
+                }
+                slot.version++;
+            }
+            if (slot.version !== startVersion) scheduleSaveFlush();
+            return slot;
+        }
+
+        const saveApi = {
+            // Declares the shape of the save data: { version, defaults, migrations: { 2: (data) => data } }.
+            // Each migration receives data saved at the previous version and returns it upgraded.
+            schema: ({ version = 1, defaults = {}, migrations = {} } = {}) => {
+                saveSchema.version = version;
+                saveSchema.defaults = defaults;
+                saveSchema.migrations = migrations;
+                reportedSaveSlots.clear();
+            },
+            get: (key, fallback) => {
+                const slot = getSaveSlot(activeSaveSlot);
+                if (slot && key in slot.data) return cloneSaveValue(slot.data[key]);
+                return cloneSaveValue(key in saveSchema.defaults ? saveSchema.defaults[key] : fallback);
+            },
+            set: (key, value) => {
+                let copy;
+                try {
+                    copy = cloneSaveValue(value);
+                } catch (error) {
+                    console.error(\`Engine.save.set("\${key}"): the value cannot be stored as JSON.\`);
+                    return;
+                }
+                const slot = getSaveSlot(activeSaveSlot, true);
+                slot.data[key] = copy;
+                slot.updatedAt = Date.now();
+                scheduleSaveFlush();
+            },
+            has: (key) => {
+                const slot = getSaveSlot(activeSaveSlot);
+                return Boolean(slot && key in slot.data);
+            },
+            remove: (key) => {
+                const slot = getSaveSlot(activeSaveSlot);
+                if (!slot || !(key in slot.data)) return;
+                delete slot.data[key];
+                slot.updatedAt = Date.now();
+                scheduleSaveFlush();
+            },
+            getAll: () => {
+                const slot = getSaveSlot(activeSaveSlot);
+                return cloneSaveValue({ ...saveSchema.defaults, ...(slot ? slot.data : {}) });
+            },
+            // Clears one slot (the active one by default), or every slot with clear('*').
+            clear: (name = activeSaveSlot) => {
+                if (name === '*') saveStore.slots = {};
+                else delete saveStore.slots[name];
+                scheduleSaveFlush();
+            },
+            useSlot: (name) => { activeSaveSlot = String(name); },
+            getSlot: () => activeSaveSlot,
+            listSlots: () => Object.entries(saveStore.slots).map(([name, slot]) => ({ name, version: slot.version, updatedAt: slot.updatedAt }))
+        };
+    `;
+
+    // Frame profiler shared by both engines. Each loop opens a frame with profileBeginFrame(),
+    // switches phases with profileMark(phase) and closes it with profileEndFrame(counts).
+    // Inside the IDE preview, frames are batched and posted to the parent as 'engine-profile'
+    // messages about four times a second, alongside the console's messages. Where the browser
+    // exposes performance.memory, a sudden drop in heap size is counted as a garbage collection.
+    const frameProfiler = `
+        const PROFILE_PHASES = ['input', 'update', 'physics', 'render', 'ui'];
+        const PROFILE_POST_INTERVAL = 250;
+        const LONG_FRAME_MS = 33;
+        const GC_DROP_BYTES = 1024 * 1024;
+        const profiler = {
+            streaming: window.parent !== window,
+            overlay: false,
+            frameStart: 0, previousFrameStart: 0, phase: null, phaseStart: 0,
+            phases: {}, frames: [], counts: {},
+            lastPost: 0, lastHeap: 0, gcEvents: 0,
+            latest: null
+        };
+
+        function profileBeginFrame() {
+            const now = performance.now();
+            profiler.previousFrameStart = profiler.frameStart;
+            profiler.frameStart = now;
+            profiler.phaseStart = now;
+            profiler.phase = null;
+            PROFILE_PHASES.forEach(phase => { profiler.phases[phase] = 0; });
+        }
+
+        function profileMark(phase) {
+            const now = performance.now();
+            if (profiler.phase) profiler.phases[profiler.phase] += now - profiler.phaseStart;
+            profiler.phase = phase;
+            profiler.phaseStart = now;
+        }
+
+        function profileEndFrame(counts) {
+            profileMark(null);
+            const now = performance.now();
+            const interval = profiler.previousFrameStart ? profiler.frameStart - profiler.previousFrameStart : 0;
+            profiler.frames.push({ interval, work: now - profiler.frameStart, phases: { ...profiler.phases } });
+            profiler.counts = counts;
+            const memory = performance.memory;
+            if (memory) {
+                if (profiler.lastHeap - memory.usedJSHeapSize > GC_DROP_BYTES) profiler.gcEvents++;
+                profiler.lastHeap = memory.usedJSHeapSize;
+            }
+            if (now - profiler.lastPost >= PROFILE_POST_INTERVAL) flushProfile(now);
+        }
+
+        function flushProfile(now) {
+            const frames = profiler.frames;
+            profiler.frames = [];
+            profiler.lastPost = now;
+            if (frames.length === 0) return;
+            const average = (values) => values.reduce((sum, value) => sum + value, 0) / values.length;
+            const intervals = frames.map(frame => frame.interval).filter(interval => interval > 0);
+            const phases = {};
+            PROFILE_PHASES.forEach(phase => { phases[phase] = average(frames.map(frame => frame.phases[phase])); });
+            const averageInterval = intervals.length > 0 ? average(intervals) : 0;
+            profiler.latest = {
+                fps: averageInterval > 0 ? 1000 / averageInterval : 0,
+                frameMs: averageInterval,
+                worstFrameMs: intervals.length > 0 ? Math.max(...intervals) : 0,
+                workMs: average(frames.map(frame => frame.work)),
+                longFrames: intervals.filter(interval => interval > LONG_FRAME_MS).length,
+                phases,
+                counts: profiler.counts,
+                heapMB: profiler.lastHeap ? profiler.lastHeap / 1048576 : null,
+                gcEvents: profiler.gcEvents,
+                // Per-frame [frame interval, time spent in engine and game code], for graphs.
+                frames: frames.map(frame => [frame.interval, frame.work])
+            };
+            profiler.gcEvents = 0;
+            if (profiler.streaming) window.parent.postMessage({ type: 'engine-profile', payload: profiler.latest }, '*');
+        }
+
+        function drawProfilerOverlay(context) {
+            if (!profiler.overlay || !profiler.latest) return;
+            const stats = profiler.latest;
+            const lines = [
+                \`\${stats.fps.toFixed(0)} fps  \${stats.frameMs.toFixed(1)} ms (worst \${stats.worstFrameMs.toFixed(1)})\`,
+                PROFILE_PHASES.map(phase => \`\${phase} \${stats.phases[phase].toFixed(1)}\`).join('  '),
+                Object.entries(stats.counts).map(([name, value]) => \`\${name} \${value}\`).join('  ')
+            ];
+            context.save();
+            context.font = '12px monospace';
+            context.textAlign = 'left';
+            context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+            context.fillRect(4, 4, Math.max(...lines.map(line => context.measureText(line).width)) + 12, lines.length * 16 + 8);
+            context.fillStyle = stats.frameMs > LONG_FRAME_MS ? '#f87171' : '#4ade80';
+            lines.forEach((line, i) => context.fillText(line, 10, 20 + i * 16));
+            context.restore();
+        }
+
+        const profilerApi = {
+            // The latest summary: fps, frame and phase timings in ms, entity counts and GC hints.
+            getStats: () => profiler.latest,
+            showOverlay: (visible = true) => { profiler.overlay = visible; }
+        };
+    `;
+
+    // Debug drawing shared by both engines. Engine.debug.enable() turns on an overlay of the
+    // bounds Engine.physics.checkCollision tests, body velocities and the camera target,
+    // plus shapes queued with Engine.debug.line/rect/text, which last a single frame. Only
+    // the IDE preview injects window.__ENGINE_DEBUG__; without it (an exported build) every
+    // call is a no-op, so debug calls left in a game cost nothing once it ships.
+    const debugDraw = `
+        const debugAllowed = window.__ENGINE_DEBUG__ !== undefined;
+        const debugState = { enabled: window.__ENGINE_DEBUG__ === true, lines: [], rects: [], texts: [] };
+        const DEBUG_COLORS = { bounds: '#22d3ee', velocity: '#facc15', camera: '#f472b6', custom: '#a3e635', text: '#ffffff' };
+        // Velocity arrows show where a body will be this many seconds from now.
+        const DEBUG_VELOCITY_SECONDS = 0.25;
+
+        function clearDebugShapes() {
+            debugState.lines = [];
+            debugState.rects = [];
+            debugState.texts = [];
+        }
+
+        function setDebugEnabled(enabled) {
+            if (!debugAllowed || debugState.enabled === enabled) return;
+            debugState.enabled = enabled;
+            clearDebugShapes();
+            postTimeState();
+        }
+
+        window.addEventListener('message', (event) => {
+            const data = event.data;
+            if (data && data.type === 'engine-control' && data.action === 'debug') setDebugEnabled(Boolean(data.enabled));
+        });
+
+        const debugApi = {
+            enable: () => setDebugEnabled(true),
+            disable: () => setDebugEnabled(false),
+            toggle: () => setDebugEnabled(!debugState.enabled),
+            isEnabled: () => debugState.enabled,
+            line: (from, to, color = DEBUG_COLORS.custom) => {
+                if (debugState.enabled) debugState.lines.push({ from, to, color });
+            },
+            // Outlines anything with bounds: a sprite or { x, y, width, height } in 2D, a mesh or Box3 in 3D.
+            rect: (target, color = DEBUG_COLORS.custom) => {
+                if (debugState.enabled && target) debugState.rects.push({ target, color });
+            },
+            text: (text, position, color = DEBUG_COLORS.text) => {
+                if (debugState.enabled) debugState.texts.push({ text: String(text), position, color });
+            }
+        };
+    `;
+
+    // Audio shared by both engines. Sounds are decoded from URLs or project files into
+    // buffers and played through 'music', 'sfx' and 'ui' buses that feed a master bus.
+    // Browsers start the AudioContext suspended; it resumes on the first user gesture, and
+    // one-shot sounds requested before then are dropped instead of all firing at once.
+    // Names that were never loaded fall back to a synth preset of the same name.
+    const audioSystem = `
+        const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+        const audioContext = AudioContextClass ? new AudioContextClass() : null;
+        const audioBuses = {};
+        const audioBusSettings = {};
+        const audioBuffers = new Map();
+        const audioLoads = new Map();
+        const warnedSounds = new Set();
+        const currentMusic = { name: null, handle: null };
+        let audioUnlocked = false;
+
+        if (audioContext) {
+            audioBuses.master = audioContext.createGain();
+            audioBuses.master.connect(audioContext.destination);
+            ['music', 'sfx', 'ui'].forEach(name => {
+                audioBuses[name] = audioContext.createGain();
+                audioBuses[name].connect(audioBuses.master);
+            });
+            Object.keys(audioBuses).forEach(name => { audioBusSettings[name] = { volume: 1, muted: false }; });
+
+            const gestureEvents = ['pointerdown', 'keydown', 'touchstart'];
+            const unlockAudio = () => {
+                audioUnlocked = true;
+                audioContext.resume();
+                gestureEvents.forEach(type => window.removeEventListener(type, unlockAudio, true));
+            };
+            gestureEvents.forEach(type => window.addEventListener(type, unlockAudio, true));
+        }
+
+        function applyBusGain(name) {
+            const settings = audioBusSettings[name];
+            if (!settings) return;
+            audioBuses[name].gain.setTargetAtTime(settings.muted ? 0 : settings.volume, audioContext.currentTime, 0.02);
+        }
+
+        function loadSound(name, source) {
+            if (!audioContext) return Promise.resolve(null);
+            const request = fetch(resolveAssetUrl(source))
+                .then(response => {
+                    if (!response.ok) throw new Error(response.statusText);
+                    return response.arrayBuffer();
+                })
+                .then(data => audioContext.decodeAudioData(data))
+                .then(buffer => {
+                    synthSounds.delete(name);
+                    audioBuffers.set(name, buffer);
+                    return buffer;
+                })
+                .catch(() => {
+                    console.error('Failed to load sound: ' + source);
+                    return null;
+                })
+                .finally(() => audioLoads.delete(name));
+            audioLoads.set(name, request);
+            return request;
+        }
+
+        // sfxr-style synthesizer. Parameters are rendered sample by sample into an AudioBuffer
+        // (cached per parameter set), so synthesized sounds play exactly like loaded ones.
+        // Times are in seconds, frequencies in Hz and slides in Hz per second.
+        const synthDefaults = {
+            wave: 'square', volume: 0.5,
+            attack: 0, sustain: 0.1, punch: 0, decay: 0.2,
+            frequency: 440, minFrequency: 0, frequencySlide: 0, deltaSlide: 0,
+            vibratoDepth: 0, vibratoSpeed: 0,
+            arpeggio: 1, arpeggioAt: 0,
+            duty: 0.5, dutySweep: 0,
+            lowPass: 0, highPass: 0
+        };
+        // Games may synthesize a new seed or parameter set on every play, so rendered buffers and
+        // synthesized names live in small LRU caches. An evicted name re-renders from its parameters;
+        // only loaded sounds, which can't be rebuilt, stay in audioBuffers for good.
+        const MAX_SYNTH_BUFFERS = 32;
+        const MAX_SYNTH_SOUNDS = 256;
+
+        function createLruCache(limit) {
+            const entries = new Map();
+            return {
+                has: (key) => entries.has(key),
+                get: (key) => {
+                    if (!entries.has(key)) return undefined;
+                    const value = entries.get(key);
+                    entries.delete(key);
+                    entries.set(key, value);
+                    return value;
+                },
+                set: (key, value) => {
+                    entries.delete(key);
+                    entries.set(key, value);
+                    if (entries.size > limit) entries.delete(entries.keys().next().value);
+                },
+                delete: (key) => entries.delete(key)
+            };
+        }
+
+        const synthBuffers = createLruCache(MAX_SYNTH_BUFFERS);
+        const synthSounds = createLruCache(MAX_SYNTH_SOUNDS);
+
+        const synthPresets = {
+            jump: (random, range) => ({
+                wave: random() < 0.5 ? 'square' : 'sine', duty: range(0.3, 0.6),
+                frequency: range(250, 500), frequencySlide: range(600, 1400),
+                sustain: range(0.05, 0.12), decay: range(0.1, 0.25)
+            }),
+            coin: (random, range) => ({
+                wave: random() < 0.6 ? 'square' : 'sine', duty: range(0.4, 0.6),
+                frequency: range(800, 1400), arpeggio: range(1.25, 1.6), arpeggioAt: range(0.04, 0.08),
+                sustain: range(0.04, 0.1), punch: range(0.3, 0.6), decay: range(0.15, 0.3)
+            }),
+            hurt: (random, range) => ({
+                wave: random() < 0.5 ? 'sawtooth' : 'noise',
+                frequency: range(250, 600), frequencySlide: -range(500, 1000),
+                sustain: range(0.03, 0.08), decay: range(0.1, 0.2), highPass: random() < 0.5 ? range(200, 600) : 0
+            }),
+            laser: (random, range) => ({
+                wave: random() < 0.6 ? 'square' : 'sawtooth', duty: range(0.2, 0.5), dutySweep: range(-1, 1),
+                frequency: range(900, 1800), minFrequency: range(80, 200), frequencySlide: -range(2500, 5000),
+                sustain: range(0.05, 0.12), decay: range(0.05, 0.15)
+            }),
+            explosion: (random, range) => ({
+                wave: 'noise', volume: 0.45,
+                frequency: range(60, 180), frequencySlide: -range(20, 80),
+                sustain: range(0.1, 0.3), punch: range(0.3, 0.8), decay: range(0.3, 0.6),
+                vibratoDepth: random() < 0.5 ? range(0.1, 0.4) : 0, vibratoSpeed: range(5, 20), lowPass: range(1500, 4000)
+            }),
+            powerup: (random, range) => ({
+                wave: random() < 0.5 ? 'square' : 'sine', duty: range(0.4, 0.6),
+                frequency: range(300, 600), frequencySlide: range(200, 600),
+                vibratoDepth: range(0.05, 0.2), vibratoSpeed: range(8, 15),
+                sustain: range(0.2, 0.4), decay: range(0.1, 0.3)
+            })
+        };
+
+        // Accepts a preset name, or { preset, seed, ...overrides }, or raw parameters.
+        function resolveSynthParams(params) {
+            const options = typeof params === 'string' ? { preset: params } : { ...params };
+            const { preset, seed = 1, name, ...overrides } = options;
+            let base = {};
+            if (preset) {
+                if (!synthPresets[preset]) {
+                    console.warn(\`Unknown synth preset "\${preset}".\`);
+                } else {
+                    const random = createSeededRandom(toSeed(seed));
+                    base = synthPresets[preset](random, (min, max) => min + random() * (max - min));
+                }
+            }
+            return { ...synthDefaults, ...base, ...overrides };
+        }
+
+        function renderSynth(params) {
+            const key = JSON.stringify(params);
+            const cached = synthBuffers.get(key);
+            if (cached) return cached;
+            const p = params;
+            const sampleRate = audioContext.sampleRate;
+            const duration = p.attack + p.sustain + p.decay;
+            const length = Math.max(1, Math.ceil(duration * sampleRate));
+            const buffer = audioContext.createBuffer(1, length, sampleRate);
+            const data = buffer.getChannelData(0);
+            const dt = 1 / sampleRate;
+            const lowPassAlpha = p.lowPass > 0 ? 1 - Math.exp(-2 * Math.PI * p.lowPass * dt) : 1;
+            const highPassAlpha = p.highPass > 0 ? 1 - Math.exp(-2 * Math.PI * p.highPass * dt) : 0;
+            const noiseRandom = createSeededRandom(length);
+            const noise = Array.from({ length: 32 }, () => noiseRandom() * 2 - 1);
+            let frequency = p.frequency;
+            let slide = p.frequencySlide;
+            let duty = p.duty;
+            let phase = 0;
+            let arpeggioDone = p.arpeggio === 1;
+            let lowPassed = 0;
+            let highPassBase = 0;
+
+            for (let i = 0; i < length; i++) {
+                const t = i * dt;
+                slide += p.deltaSlide * dt;
+                frequency += slide * dt;
+                if (frequency < p.minFrequency) break;
+                frequency = Math.max(20, frequency);
+                if (!arpeggioDone && t >= p.arpeggioAt) {
+                    frequency *= p.arpeggio;
+                    arpeggioDone = true;
+                }
+                duty = Math.max(0.05, Math.min(0.95, duty + p.dutySweep * dt));
+
+                const vibrato = 1 + p.vibratoDepth * Math.sin(2 * Math.PI * p.vibratoSpeed * t);
+                phase += frequency * vibrato * dt;
+                if (phase >= 1) {
+                    phase %= 1;
+                    if (p.wave === 'noise') noise.forEach((_, n) => { noise[n] = noiseRandom() * 2 - 1; });
+                }
+
+                let sample;
+                switch (p.wave) {
+                    case 'sine': sample = Math.sin(2 * Math.PI * phase); break;
+                    case 'sawtooth': sample = 1 - 2 * phase; break;
+                    case 'triangle': sample = 1 - 4 * Math.abs(phase - 0.5); break;
+                    case 'noise': sample = noise[Math.floor(phase * 32)]; break;
+                    case 'square': default: sample = phase < duty ? 1 : -1; break;
+                }
+
+                let envelope;
+                if (t < p.attack) envelope = t / p.attack;
+                else if (t < p.attack + p.sustain) envelope = 1 + p.punch * (1 - (t - p.attack) / p.sustain);
+                else envelope = Math.max(0, 1 - (t - p.attack - p.sustain) / (p.decay || dt));
+
+                lowPassed += lowPassAlpha * (sample - lowPassed);
+                highPassBase += highPassAlpha * (lowPassed - highPassBase);
+                const filtered = lowPassed - highPassBase;
+                data[i] = Math.max(-1, Math.min(1, filtered * envelope * p.volume));
+            }
+            synthBuffers.set(key, buffer);
+            return buffer;
+        }
+
+        // Registers the sound under params.name (or a generated name) and returns that name.
+        function synthesizeSound(params) {
+            if (!audioContext) return null;
+            const resolved = resolveSynthParams(params);
+            const name = (typeof params === 'object' && params.name) || 'synth:' + JSON.stringify(resolved);
+            audioBuffers.delete(name);
+            synthSounds.set(name, resolved);
+            renderSynth(resolved);
+            return name;
+        }
+
+        // Sounds played without being loaded use a preset of the same name, or a plain beep.
+        const fallbackSounds = { collect: 'coin', shoot: 'laser' };
+        function fallbackSynthParams(name) {
+            const preset = synthPresets[name] ? name : fallbackSounds[name];
+            return resolveSynthParams(preset ? { preset } : { wave: 'sine', frequency: 440, sustain: 0.1, decay: 0.1, volume: 0.2 });
+        }
+
+        // Returns a handle at once; if the sound is still loading it starts when ready.
+        // 'output' lets an engine route the sound through its own node (e.g. a panner).
+        function playSound(name, { volume = 1, pitch = 1, loop = false, bus = 'sfx', fadeIn = 0, output = null } = {}) {
+            if (!audioContext) return null;
+            const destination = output || audioBuses[bus] || audioBuses.sfx;
+            const handle = {
+                name,
+                playing: false,
+                stopped: false,
+                source: null,
+                gain: null,
+                stop: (fadeOut = 0) => {
+                    if (handle.stopped) return;
+                    handle.stopped = true;
+                    if (!handle.source) return;
+                    const now = audioContext.currentTime;
+                    handle.gain.gain.cancelScheduledValues(now);
+                    handle.gain.gain.setValueAtTime(handle.gain.gain.value, now);
+                    handle.gain.gain.linearRampToValueAtTime(0, now + fadeOut);
+                    handle.source.stop(now + fadeOut);
+                },
+                setVolume: (value) => {
+                    if (handle.gain) handle.gain.gain.setTargetAtTime(value, audioContext.currentTime, 0.02);
+                },
+                setPitch: (value) => {
+                    if (handle.source) handle.source.playbackRate.setTargetAtTime(value, audioContext.currentTime, 0.02);
+                }
+            };
+
+            const start = (buffer) => {
+                if (handle.stopped || !buffer) return;
+                if (!audioUnlocked && !loop) {
+                    handle.stopped = true;
+                    return;
+                }
+                const source = audioContext.createBufferSource();
+                source.buffer = buffer;
+                source.loop = loop;
+                source.playbackRate.value = pitch;
+                const gain = audioContext.createGain();
+                const now = audioContext.currentTime;
+                gain.gain.setValueAtTime(fadeIn > 0 ? 0 : volume, now);
+                if (fadeIn > 0) gain.gain.linearRampToValueAtTime(volume, now + fadeIn);
+                source.connect(gain);
+                gain.connect(destination);
+                source.onended = () => {
+                    handle.playing = false;
+                    handle.stopped = true;
+                    gain.disconnect();
+                };
+                source.start();
+                Object.assign(handle, { source, gain, playing: true });
+            };
+
+            if (audioBuffers.has(name)) {
+                start(audioBuffers.get(name));
+            } else if (synthSounds.has(name)) {
+                start(renderSynth(synthSounds.get(name)));
+            } else if (audioLoads.has(name)) {
+                audioLoads.get(name).then(start);
+            } else {
+                if (!warnedSounds.has(name) && !synthPresets[name] && !fallbackSounds[name]) {
+                    warnedSounds.add(name);
+                    console.warn(\`Sound "\${name}" was not loaded with Engine.audio.load() or Engine.audio.synth(); playing a placeholder beep.\`);
+                }
+                start(renderSynth(fallbackSynthParams(name)));
+            }
+            return handle;
+        }
+
+        function playMusic(name, { volume = 1, crossfade = 1, loop = true } = {}) {
+            const playing = currentMusic.handle && !currentMusic.handle.stopped;
+            if (playing && currentMusic.name === name) return currentMusic.handle;
+            if (playing) currentMusic.handle.stop(crossfade);
+            currentMusic.name = name;
+            currentMusic.handle = playSound(name, { volume, loop, bus: 'music', fadeIn: playing ? crossfade : 0 });
+            return currentMusic.handle;
+        }
+
+        function stopMusic(fadeOut = 1) {
+            if (currentMusic.handle) currentMusic.handle.stop(fadeOut);
+            currentMusic.name = null;
+            currentMusic.handle = null;
+        }
+
+        const audioApi = {
+            load: (name, source) => loadSound(name, source),
+            play: (name, options) => playSound(name, options),
+            synth: (params) => synthesizeSound(params),
+            synthPresets: Object.keys(synthPresets),
+            playMusic: (name, options) => playMusic(name, options),
+            stopMusic: (fadeOut) => stopMusic(fadeOut),
+            // Buses: 'master', 'music', 'sfx' and 'ui'.
+            setVolume: (bus, volume) => {
+                if (!audioBusSettings[bus]) return;
+                audioBusSettings[bus].volume = volume;
+                applyBusGain(bus);
+            },
+            getVolume: (bus) => audioBusSettings[bus] ? audioBusSettings[bus].volume : 0,
+            mute: (bus = 'master', muted = true) => {
+                if (!audioBusSettings[bus]) return;
+                audioBusSettings[bus].muted = muted;
+                applyBusGain(bus);
+            },
+            isMuted: (bus = 'master') => !!(audioBusSettings[bus] && audioBusSettings[bus].muted),
+            isUnlocked: () => audioUnlocked
+        };
+    `;
+
     if (workspaceType === '2D') {
         return `
         ${consoleOverride}
+        ${spatialHash}
+        ${sceneManager}
+        ${ecsWorld}
+        ${tweenLibrary}
+        ${assetResolver}
+        ${randomSystem}
+        ${audioSystem}
+        ${timeSystem}
+        ${saveSystem}
+        ${frameProfiler}
+        ${debugDraw}
+        const canvas = document.getElementById('game-canvas');
+        if (!canvas) throw new Error('Could not find canvas');
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get 2D context');
+
+        function resizeCanvas() {
+            canvas.width = window.innerWidth;
+            canvas.height = window.innerHeight;
+        }
+        resizeCanvas();
+        window.addEventListener('resize', resizeCanvas);
+
+        ${inputSystem}
+        ${inputRecorder}
+
+        let sprites = [];
+        let tilemaps = [];
+        let particles = [];
+        let uiTasks = [];
+        let onUpdateCallback = (deltaTime) => {};
+        let lastTime = 0;
+        const state = new Map();
+        
+        const assetCache = {};
+        const loadingAssets = new Set();
+
+        function loadImage(url) {
+            if (assetCache[url]) {
+                return assetCache[url];
+            }
+            if (!loadingAssets.has(url)) {
+                loadingAssets.add(url);
+                const img = new Image();
+                img.onload = () => {
+                    assetCache[url] = img;
+                    loadingAssets.delete(url);
+                };
+                img.onerror = () => {
+                    console.error('Failed to load image: ' + url);
+                    loadingAssets.delete(url);
+                }
+                img.src = resolveAssetUrl(url);
+            }
+            return null;
+        }
+
+        const camera = {
+            x: 0,
+            y: 0,
+            target: null,
+            offset: { x: 0, y: 0 }
+        };
+
+        function updatePointerWorld(pointer) {
+            pointer.worldX = pointer.x + camera.x;
+            pointer.worldY = pointer.y + camera.y;
+        }
+
+        // Tilemaps are rendered in chunks of chunkSize x chunkSize tiles. Each chunk is
+        // drawn once to an offscreen canvas and re-used until one of its tiles changes.
+        // Tile index 0 is empty; index n draws the n-th tile of the tileset (1-based, like Tiled).
+        function createTilemap({ x = 0, y = 0, tileSize = 32, tilesetUrl = null, data = [], solid = null, colors = {}, chunkSize = 16, friction = 0.5, restitution = 0, collisionLayer = 'default', collisionMask = null, layer = 'default', zIndex = 0 }) {
+            if (tilesetUrl) {
+                loadImage(tilesetUrl);
+            }
+            const rows = data.length;
+            const cols = rows > 0 ? Math.max(...data.map(row => row.length)) : 0;
+            const tilemap = {
+                id: nextRandom(),
+                kind: 'tilemap',
+                layer, zIndex,
+                x, y, tileSize, tilesetUrl, data, colors, chunkSize, friction, restitution,
+                collisionLayer, collisionMask: normalizeMask(collisionMask),
+                rows, cols,
+                width: cols * tileSize,
+                height: rows * tileSize,
+                // null means "every non-empty tile is solid".
+                solid: solid ? new Set(solid) : null,
+                chunks: new Map(),
+                getTile: (col, row) => (data[row] && data[row][col]) || 0,
+                setTile: (col, row, index) => {
+                    if (row < 0 || col < 0 || row >= rows || col >= cols) return;
+                    if (!data[row]) data[row] = [];
+                    data[row][col] = index;
+                    tilemap.chunks.delete(Math.floor(col / chunkSize) + ',' + Math.floor(row / chunkSize));
+                },
+                isSolid: (col, row) => {
+                    const index = tilemap.getTile(col, row);
+                    if (!index) return false;
+                    return tilemap.solid ? tilemap.solid.has(index) : true;
+                },
+                worldToTile: (wx, wy) => ({ col: Math.floor((wx - tilemap.x) / tileSize), row: Math.floor((wy - tilemap.y) / tileSize) }),
+                tileToWorld: (col, row) => ({ x: tilemap.x + col * tileSize, y: tilemap.y + row * tileSize }),
+            };
+            tilemaps.push(tilemap);
+            trackSceneEntity(tilemap);
+            return tilemap;
+        }
+
+        function renderTilemapChunk(tilemap, chunkX, chunkY, tileset) {
+            const { tileSize, chunkSize } = tilemap;
+            const chunkCanvas = document.createElement('canvas');
+            chunkCanvas.width = chunkSize * tileSize;
+            chunkCanvas.height = chunkSize * tileSize;
+            const chunkCtx = chunkCanvas.getContext('2d');
+            const tilesetCols = tileset ? Math.max(1, Math.floor(tileset.width / tileSize)) : 1;
+
+            for (let r = 0; r < chunkSize; r++) {
+                for (let c = 0; c < chunkSize; c++) {
+                    const index = tilemap.getTile(chunkX * chunkSize + c, chunkY * chunkSize + r);
+                    if (!index) continue;
+                    if (tileset) {
+                        const frame = index - 1;
+                        const sx = (frame % tilesetCols) * tileSize;
+                        const sy = Math.floor(frame / tilesetCols) * tileSize;
+                        chunkCtx.drawImage(tileset, sx, sy, tileSize, tileSize, c * tileSize, r * tileSize, tileSize, tileSize);
+                    } else {
+                        chunkCtx.fillStyle = tilemap.colors[index] || 'lightgreen';
+                        chunkCtx.fillRect(c * tileSize, r * tileSize, tileSize, tileSize);
+                    }
+                }
+            }
+            return chunkCanvas;
+        }
+
+        // viewX/viewY is the camera position as seen by the tilemap's layer (after parallax).
+        function drawTilemap(tilemap, viewX, viewY) {
+            const tileset = tilemap.tilesetUrl ? assetCache[tilemap.tilesetUrl] : null;
+            // Wait for the tileset rather than caching colour-filled placeholder chunks.
+            if (tilemap.tilesetUrl && !tileset) return;
+
+            const chunkPixels = tilemap.chunkSize * tilemap.tileSize;
+            const firstChunkX = Math.max(0, Math.floor((viewX - tilemap.x) / chunkPixels));
+            const firstChunkY = Math.max(0, Math.floor((viewY - tilemap.y) / chunkPixels));
+            const lastChunkX = Math.min(Math.ceil(tilemap.cols / tilemap.chunkSize) - 1, Math.floor((viewX + canvas.width - tilemap.x) / chunkPixels));
+            const lastChunkY = Math.min(Math.ceil(tilemap.rows / tilemap.chunkSize) - 1, Math.floor((viewY + canvas.height - tilemap.y) / chunkPixels));
+
+            for (let cy = firstChunkY; cy <= lastChunkY; cy++) {
+                for (let cx = firstChunkX; cx <= lastChunkX; cx++) {
+                    const key = cx + ',' + cy;
+                    let chunk = tilemap.chunks.get(key);
+                    if (!chunk) {
+                        chunk = renderTilemapChunk(tilemap, cx, cy, tileset);
+                        tilemap.chunks.set(key, chunk);
+                    }
+                    ctx.drawImage(chunk, tilemap.x + cx * chunkPixels, tilemap.y + cy * chunkPixels);
+                }
+            }
+        }
+
+        // Returns the solid tiles overlapping the given rectangle as sprite-like boxes.
+        function getSolidTilesInRect(rect) {
+            const hits = [];
+            tilemaps.forEach(tilemap => {
+                const start = tilemap.worldToTile(rect.x, rect.y);
+                const end = tilemap.worldToTile(rect.x + rect.width - 0.0001, rect.y + rect.height - 0.0001);
+                for (let row = Math.max(0, start.row); row <= Math.min(tilemap.rows - 1, end.row); row++) {
+                    for (let col = Math.max(0, start.col); col <= Math.min(tilemap.cols - 1, end.col); col++) {
+                        if (tilemap.isSolid(col, row)) {
+                            const pos = tilemap.tileToWorld(col, row);
+                            hits.push({ x: pos.x, y: pos.y, width: tilemap.tileSize, height: tilemap.tileSize, col, row, tile: tilemap.getTile(col, row), tilemap });
+                        }
+                    }
+                }
+            });
+            return hits;
+        }
+
+        // Opt-in rigid bodies. Static bodies never move, kinematic bodies move by their
+        // velocity only, and dynamic bodies are pushed out of everything else they touch.
+        const physicsWorld = {
+            gravity: { x: 0, y: 0 },
+            contacts: new Map(),
+            onCollisionEnter: null,
+            onCollisionExit: null
+        };
+
+        function createBody(config) {
+            return {
+                type: 'dynamic',
+                mass: 1,
+                friction: 0.2,
+                restitution: 0,
+                gravityScale: 1,
+                sensor: false,
+                grounded: false,
+                onCollisionEnter: null,
+                onCollisionExit: null,
+                ...config
+            };
+        }
+
+        function rectsOverlap(a, b) {
+            return a.x < b.x + b.width &&
+                   a.x + a.width > b.x &&
+                   a.y < b.y + b.height &&
+                   a.y + a.height > b.y;
+        }
+
+        function canCollide(a, b) {
+            return layersCollide(a.collisionLayer, a.collisionMask, b.collisionLayer, b.collisionMask);
+        }
+
+        // The sprite broadphase is rebuilt lazily: at most once per frame, plus whenever
+        // sprites are created or destroyed. Queries always do an exact AABB test.
+        const broadphase = createSpatialHash(64);
+        let broadphaseDirty = true;
+
+        function refreshBroadphase() {
+            if (!broadphaseDirty) return;
+            broadphase.clear();
+            sprites.forEach(s => broadphase.insert(s, [s.x, s.y], [s.x + s.width, s.y + s.height]));
+            broadphaseDirty = false;
+        }
+
+        function querySprites(rect) {
+            refreshBroadphase();
+            return broadphase.query([rect.x, rect.y], [rect.x + rect.width, rect.y + rect.height]).filter(s => rectsOverlap(s, rect));
+        }
+
+        function contactKey(a, b) {
+            return a.id < b.id ? a.id + ':' + b.id : b.id + ':' + a.id;
+        }
+
+        // Destroyed sprites and tilemaps leave their contacts silently; no exit event fires for them.
+        function forgetContacts(entity) {
+            physicsWorld.contacts.forEach((pair, key) => {
+                if (pair.includes(entity)) physicsWorld.contacts.delete(key);
+            });
+        }
+
+        // Moves a dynamic sprite out of static/kinematic bodies and solid tiles along one axis.
+        function resolveAxis(sprite, axis, contacts) {
+            const size = axis === 'x' ? 'width' : 'height';
+            const vel = 'v' + axis;
+            const tangentVel = axis === 'x' ? 'vy' : 'vx';
+            const body = sprite.body;
+
+            const solids = querySprites(sprite).filter(other => other.body && other.body.type !== 'dynamic' && !other.body.sensor);
+            const tiles = getSolidTilesInRect(sprite).filter(tile => canCollide(sprite, tile.tilemap));
+
+            solids.concat(tiles).forEach(other => {
+                if (other === sprite || !rectsOverlap(sprite, other)) return;
+                if (other.body && !canCollide(sprite, other)) return;
+                const otherBody = other.body || other.tilemap;
+                contacts.set(contactKey(sprite, other.body ? other : other.tilemap), [sprite, other.body ? other : other.tilemap]);
+
+                const otherVel = other[vel] || 0;
+                const relative = sprite[vel] - otherVel;
+                const fromNegativeSide = relative !== 0
+                    ? relative > 0
+                    : sprite[axis] + sprite[size] / 2 < other[axis] + other[size] / 2;
+                sprite[axis] = fromNegativeSide ? other[axis] - sprite[size] : other[axis] + other[size];
+
+                if (relative !== 0) {
+                    const restitution = Math.max(body.restitution, otherBody.restitution || 0);
+                    sprite[vel] = otherVel - relative * restitution;
+
+                    // Coulomb friction: the tangential change is bounded by the normal impulse.
+                    const friction = Math.sqrt(body.friction * (otherBody.friction || 0));
+                    const tangentRelative = sprite[tangentVel] - (other[tangentVel] || 0);
+                    const maxChange = Math.abs(relative) * (1 + restitution) * friction;
+                    sprite[tangentVel] -= Math.sign(tangentRelative) * Math.min(Math.abs(tangentRelative), maxChange);
+                }
+
+                if (axis === 'y' && fromNegativeSide === (physicsWorld.gravity.y >= 0)) {
+                    body.grounded = true;
+                }
+            });
+        }
+
+        function resolveDynamicPair(a, b, contacts) {
+            if (!rectsOverlap(a, b) || !canCollide(a, b)) return;
+            contacts.set(contactKey(a, b), [a, b]);
+            if (a.body.sensor || b.body.sensor) return;
+
+            const invMassA = a.body.mass > 0 ? 1 / a.body.mass : 0;
+            const invMassB = b.body.mass > 0 ? 1 / b.body.mass : 0;
+            const totalInvMass = invMassA + invMassB;
+            if (totalInvMass === 0) return;
+
+            const overlapX = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+            const overlapY = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+            const axis = overlapX < overlapY ? 'x' : 'y';
+            const size = axis === 'x' ? 'width' : 'height';
+            const overlap = axis === 'x' ? overlapX : overlapY;
+            const vel = 'v' + axis;
+            const tangentVel = axis === 'x' ? 'vy' : 'vx';
+            // Normal pointing from b towards a.
+            const dir = a[axis] + a[size] / 2 < b[axis] + b[size] / 2 ? -1 : 1;
+
+            a[axis] += dir * overlap * invMassA / totalInvMass;
+            b[axis] -= dir * overlap * invMassB / totalInvMass;
+
+            const relative = (a[vel] - b[vel]) * dir;
+            if (relative < 0) {
+                const restitution = Math.max(a.body.restitution, b.body.restitution);
+                const impulse = -(1 + restitution) * relative / totalInvMass;
+                a[vel] += impulse * invMassA * dir;
+                b[vel] -= impulse * invMassB * dir;
+
+                const friction = Math.sqrt(a.body.friction * b.body.friction);
+                const tangentRelative = a[tangentVel] - b[tangentVel];
+                const frictionImpulse = Math.min(Math.abs(tangentRelative) / totalInvMass, impulse * friction) * Math.sign(tangentRelative);
+                a[tangentVel] -= frictionImpulse * invMassA;
+                b[tangentVel] += frictionImpulse * invMassB;
+            }
+
+            if (axis === 'y') {
+                const upper = dir < 0 ? a : b;
+                const lower = dir < 0 ? b : a;
+                (physicsWorld.gravity.y >= 0 ? upper : lower).body.grounded = true;
+            }
+        }
+
+        function dispatchContact(callbackName, pair) {
+            const [a, b] = pair;
+            if (a.body && a.body[callbackName]) a.body[callbackName](b);
+            if (b.body && b.body[callbackName]) b.body[callbackName](a);
+            if (physicsWorld[callbackName]) physicsWorld[callbackName](a, b);
+        }
+
+        function stepPhysics(deltaTime) {
+            // Large frame gaps (e.g. after a tab switch) would tunnel bodies through walls.
+            const dt = Math.min(deltaTime, 0.05);
+            if (dt <= 0) return;
+
+            const bodies = sprites.filter(s => s.body);
+            const dynamics = bodies.filter(s => s.body.type === 'dynamic');
+            const contacts = new Map();
+
+            bodies.forEach(sprite => {
+                if (sprite.body.type !== 'kinematic') return;
+                sprite.x += sprite.vx * dt;
+                sprite.y += sprite.vy * dt;
+            });
+            broadphaseDirty = true;
+
+            dynamics.forEach(sprite => {
+                const body = sprite.body;
+                body.grounded = false;
+                sprite.vx += physicsWorld.gravity.x * body.gravityScale * dt;
+                sprite.vy += physicsWorld.gravity.y * body.gravityScale * dt;
+                sprite.x += sprite.vx * dt;
+                if (!body.sensor) resolveAxis(sprite, 'x', contacts);
+                sprite.y += sprite.vy * dt;
+                if (!body.sensor) resolveAxis(sprite, 'y', contacts);
+            });
+            broadphaseDirty = true;
+
+            const dynamicOrder = new Map(dynamics.map((sprite, i) => [sprite, i]));
+            dynamics.forEach((sprite, i) => {
+                querySprites(sprite).forEach(other => {
+                    if (dynamicOrder.get(other) > i) resolveDynamicPair(sprite, other, contacts);
+                });
+            });
+            broadphaseDirty = true;
+
+            // Sensors report overlaps with every other body but never push anything.
+            bodies.forEach(sensor => {
+                if (!sensor.body.sensor) return;
+                querySprites(sensor).forEach(other => {
+                    if (other !== sensor && other.body && canCollide(sensor, other)) {
+                        contacts.set(contactKey(sensor, other), [sensor, other]);
+                    }
+                });
+            });
+
+            contacts.forEach((pair, key) => {
+                if (!physicsWorld.contacts.has(key)) dispatchContact('onCollisionEnter', pair);
+            });
+            physicsWorld.contacts.forEach((pair, key) => {
+                if (!contacts.has(key)) dispatchContact('onCollisionExit', pair);
+            });
+            physicsWorld.contacts = contacts;
+        }
+
+        // Sprite sheets are either a uniform grid (frameWidth/frameHeight over the sprite's
+        // imageUrl) or an atlas of named frames, given inline or loaded from atlasUrl.
+        // Both the TexturePacker hash and array JSON formats are accepted.
+        function normalizeAtlasFrames(atlas) {
+            const source = atlas && atlas.frames ? atlas.frames : atlas;
+            const frames = {};
+            if (Array.isArray(source)) {
+                source.forEach(entry => { frames[entry.filename] = entry.frame; });
+            } else if (source) {
+                Object.keys(source).forEach(name => { frames[name] = source[name].frame || source[name]; });
+            }
+            return frames;
+        }
+
+        function createSpriteSheet(config) {
+            if (!config) return null;
+            const sheet = { frameWidth: config.frameWidth || 0, frameHeight: config.frameHeight || 0, frames: null };
+            if (config.atlas) {
+                sheet.frames = normalizeAtlasFrames(config.atlas);
+            } else if (config.atlasUrl) {
+                fetch(resolveAssetUrl(config.atlasUrl))
+                    .then(response => response.json())
+                    .then(json => { sheet.frames = normalizeAtlasFrames(json); })
+                    .catch(() => console.error('Failed to load sprite atlas: ' + config.atlasUrl));
+            }
+            return sheet;
+        }
+
+        function getFrameRect(sprite, img) {
+            const sheet = sprite.spriteSheet;
+            if (!sheet) return null;
+            if (sheet.frames) {
+                const rect = sheet.frames[sprite.frame];
+                return rect ? { x: rect.x, y: rect.y, w: rect.w, h: rect.h } : null;
+            }
+            if (!sheet.frameWidth || !sheet.frameHeight) return null;
+            const cols = Math.max(1, Math.floor(img.width / sheet.frameWidth));
+            const index = Number(sprite.frame) || 0;
+            return { x: (index % cols) * sheet.frameWidth, y: Math.floor(index / cols) * sheet.frameHeight, w: sheet.frameWidth, h: sheet.frameHeight };
+        }
+
+        function playAnimation(sprite, name, { fps, loop, onComplete } = {}) {
+            const animation = sprite.animations[name];
+            if (!animation) {
+                console.warn('Unknown animation: ' + name);
+                return sprite;
+            }
+            // Calling play every frame with the current animation must not restart it.
+            if (sprite.animation && sprite.animation.name === name && sprite.animation.playing) return sprite;
+            sprite.animation = {
+                name,
+                frames: animation.frames,
+                fps: fps ?? animation.fps ?? 10,
+                loop: loop ?? animation.loop ?? true,
+                onComplete: onComplete || null,
+                index: 0,
+                time: 0,
+                playing: true
+            };
+            sprite.frame = animation.frames[0];
+            return sprite;
+        }
+
+        function updateAnimations(deltaTime) {
+            sprites.forEach(sprite => {
+                const animation = sprite.animation;
+                if (!animation || !animation.playing || animation.fps <= 0) return;
+                animation.time += deltaTime;
+                const frameDuration = 1 / animation.fps;
+                while (animation.time >= frameDuration && animation.playing) {
+                    animation.time -= frameDuration;
+                    if (animation.index < animation.frames.length - 1) {
+                        animation.index++;
+                    } else if (animation.loop) {
+                        animation.index = 0;
+                    } else {
+                        animation.playing = false;
+                        if (animation.onComplete) animation.onComplete(sprite);
+                    }
+                }
+                sprite.frame = animation.frames[animation.index];
+            });
+        }
+
+        // Sprite shaders run on one shared offscreen WebGL canvas: the sprite's current image
+        // frame (or colour) is uploaded as 'tDiffuse', its fragment shader samples it at 'vUv',
+        // and the result is drawn back onto the 2D canvas. 'time' and 'resolution' (the sprite's
+        // size in pixels) are set automatically.
+        const spriteShaderVertex = 'attribute vec2 position; varying vec2 vUv; void main() { vUv = position * 0.5 + 0.5; gl_Position = vec4(position, 0.0, 1.0); }';
+        const spriteShaderPrograms = new Map();
+        let spriteShader = null;
+        let shaderTime = 0;
+
+        function createSpriteMaterial({ fragmentShader, uniforms = {} }) {
+            const material = { fragmentShader: isShaderPath(fragmentShader) ? null : fragmentShader, uniforms };
+            if (!material.fragmentShader) {
+                loadShaderSource(fragmentShader).then(source => { material.fragmentShader = source; });
+            }
+            return material;
+        }
+
+        function getSpriteShaderContext() {
+            if (spriteShader) return spriteShader.gl ? spriteShader : null;
+            const glCanvas = document.createElement('canvas');
+            const sourceCanvas = document.createElement('canvas');
+            const gl = glCanvas.getContext('webgl', { premultipliedAlpha: false });
+            spriteShader = { glCanvas, sourceCanvas, sourceCtx: sourceCanvas.getContext('2d'), gl };
+            if (!gl) {
+                console.warn('WebGL is unavailable; sprite shaders are disabled.');
+                return null;
+            }
+            spriteShader.buffer = gl.createBuffer();
+            gl.bindBuffer(gl.ARRAY_BUFFER, spriteShader.buffer);
+            gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+            spriteShader.texture = gl.createTexture();
+            return spriteShader;
+        }
+
+        function compileSpriteShader(gl, fragmentSource) {
+            if (spriteShaderPrograms.has(fragmentSource)) return spriteShaderPrograms.get(fragmentSource);
+            const compile = (type, source) => {
+                const shader = gl.createShader(type);
+                gl.shaderSource(shader, source);
+                gl.compileShader(shader);
+                if (gl.getShaderParameter(shader, gl.COMPILE_STATUS)) return shader;
+                console.error('Sprite shader error: ' + gl.getShaderInfoLog(shader));
+                return null;
+            };
+            const vertex = compile(gl.VERTEX_SHADER, spriteShaderVertex);
+            const fragment = compile(gl.FRAGMENT_SHADER, 'precision mediump float;\\n' + fragmentSource);
+            let program = null;
+            if (vertex && fragment) {
+                program = gl.createProgram();
+                gl.attachShader(program, vertex);
+                gl.attachShader(program, fragment);
+                gl.linkProgram(program);
+                if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+                    console.error('Sprite shader error: ' + gl.getProgramInfoLog(program));
+                    program = null;
+                }
+            }
+            // Failed programs are cached too, so a broken shader logs once instead of every frame.
+            spriteShaderPrograms.set(fragmentSource, program);
+            return program;
+        }
+
+        function setSpriteShaderUniform(gl, program, name, value) {
+            const location = gl.getUniformLocation(program, name);
+            if (!location) return;
+            if (typeof value === 'boolean') gl.uniform1i(location, value ? 1 : 0);
+            else if (typeof value === 'number') gl.uniform1f(location, value);
+            else if (Array.isArray(value) && value.length >= 1 && value.length <= 4) gl['uniform' + value.length + 'fv'](location, value);
+        }
+
+        // Returns the shaded canvas, or null to fall back to the normal sprite drawing.
+        function renderSpriteShader(sprite, img) {
+            const material = sprite.material;
+            const shaderContext = material.fragmentShader ? getSpriteShaderContext() : null;
+            if (!shaderContext) return null;
+            const { gl, glCanvas, sourceCanvas, sourceCtx } = shaderContext;
+            const program = compileSpriteShader(gl, material.fragmentShader);
+            if (!program) return null;
+
+            const width = Math.max(1, Math.round(sprite.width));
+            const height = Math.max(1, Math.round(sprite.height));
+            sourceCanvas.width = glCanvas.width = width;
+            sourceCanvas.height = glCanvas.height = height;
+            if (img) {
+                const frame = getFrameRect(sprite, img);
+                if (frame) sourceCtx.drawImage(img, frame.x, frame.y, frame.w, frame.h, 0, 0, width, height);
+                else sourceCtx.drawImage(img, 0, 0, width, height);
+            } else {
+                sourceCtx.fillStyle = sprite.color;
+                sourceCtx.fillRect(0, 0, width, height);
+            }
+
+            gl.viewport(0, 0, width, height);
+            gl.useProgram(program);
+            gl.bindBuffer(gl.ARRAY_BUFFER, shaderContext.buffer);
+            const position = gl.getAttribLocation(program, 'position');
+            gl.enableVertexAttribArray(position);
+            gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+            gl.activeTexture(gl.TEXTURE0);
+            gl.bindTexture(gl.TEXTURE_2D, shaderContext.texture);
+            gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, sourceCanvas);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+            gl.uniform1i(gl.getUniformLocation(program, 'tDiffuse'), 0);
+            setSpriteShaderUniform(gl, program, 'time', shaderTime);
+            setSpriteShaderUniform(gl, program, 'resolution', [width, height]);
+            Object.entries(material.uniforms).forEach(([name, value]) => setSpriteShaderUniform(gl, program, name, value));
+            gl.clearColor(0, 0, 0, 0);
+            gl.clear(gl.COLOR_BUFFER_BIT);
+            gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+            return glCanvas;
+        }
+
+        function drawSprite(sprite) {
+            if (sprite.visible === false || sprite.alpha <= 0) return;
+            const img = sprite.imageUrl ? assetCache[sprite.imageUrl] : null;
+            const transformed = sprite.rotation || sprite.scaleX !== 1 || sprite.scaleY !== 1 || sprite.flipX || sprite.flipY || sprite.alpha !== 1;
+
+            let dx = sprite.x;
+            let dy = sprite.y;
+            if (transformed) {
+                const pivotX = sprite.width * sprite.pivot.x;
+                const pivotY = sprite.height * sprite.pivot.y;
+                ctx.save();
+                ctx.globalAlpha *= sprite.alpha;
+                ctx.translate(sprite.x + pivotX, sprite.y + pivotY);
+                ctx.rotate(sprite.rotation);
+                ctx.scale(sprite.scaleX * (sprite.flipX ? -1 : 1), sprite.scaleY * (sprite.flipY ? -1 : 1));
+                dx = -pivotX;
+                dy = -pivotY;
+            }
+
+            const shaded = sprite.material ? renderSpriteShader(sprite, img) : null;
+            if (shaded) {
+                ctx.drawImage(shaded, dx, dy, sprite.width, sprite.height);
+            } else if (img) {
+                const frame = getFrameRect(sprite, img);
+                if (frame) {
+                    ctx.drawImage(img, frame.x, frame.y, frame.w, frame.h, dx, dy, sprite.width, sprite.height);
+                } else if (!sprite.spriteSheet) {
+                    ctx.drawImage(img, dx, dy, sprite.width, sprite.height);
+                }
+            } else {
+                ctx.fillStyle = sprite.color;
+                ctx.fillRect(dx, dy, sprite.width, sprite.height);
+            }
+
+            if (transformed) ctx.restore();
+        }
+
+        // Named render layers. Sprites and tilemaps are drawn by layer order, then zIndex,
+        // then creation order. A layer's scroll factor scales how far it moves with the
+        // camera: 0 is fixed to the screen, 0.5 is a distant parallax background.
+        const renderLayers = new Map();
+
+        function getRenderLayer(name) {
+            let layer = renderLayers.get(name);
+            if (!layer) {
+                layer = { name, order: 0, scrollX: 1, scrollY: 1, visible: true };
+                renderLayers.set(name, layer);
+            }
+            return layer;
+        }
+
+        function setLayerScrollFactor(name, x, y = x) {
+            const layer = getRenderLayer(name);
+            layer.scrollX = x;
+            layer.scrollY = y;
+        }
+
+        // The context is already translated by -camera; this undoes the part a layer ignores.
+        function layerOffset(name) {
+            const layer = getRenderLayer(name);
+            return { x: camera.x * (1 - layer.scrollX), y: camera.y * (1 - layer.scrollY) };
+        }
+
+        function drawLayers() {
+            const drawables = tilemaps.concat(sprites).filter(item => getRenderLayer(item.layer).visible);
+            drawables.sort((a, b) => getRenderLayer(a.layer).order - getRenderLayer(b.layer).order || a.zIndex - b.zIndex);
+
+            let currentLayer = null;
+            drawables.forEach(item => {
+                const layer = getRenderLayer(item.layer);
+                if (layer !== currentLayer) {
+                    if (currentLayer) ctx.restore();
+                    ctx.save();
+                    const offset = layerOffset(layer.name);
+                    ctx.translate(offset.x, offset.y);
+                    currentLayer = layer;
+                }
+                if (item.kind === 'tilemap') {
+                    drawTilemap(item, camera.x * layer.scrollX, camera.y * layer.scrollY);
+                } else {
+                    drawSprite(item);
+                }
+            });
+            if (currentLayer) ctx.restore();
+        }
+
+        const toDebugPoint = (point) => Array.isArray(point) ? { x: point[0], y: point[1] } : point;
+
+        // Drawn in world space, after everything else in the frame.
+        function drawDebugOverlay() {
+            if (!debugState.enabled) return;
+            ctx.save();
+            ctx.lineWidth = 1;
+            ctx.font = '12px monospace';
+            ctx.textAlign = 'left';
+            const line = (from, to, color) => {
+                ctx.strokeStyle = color;
+                ctx.beginPath();
+                ctx.moveTo(from.x, from.y);
+                ctx.lineTo(to.x, to.y);
+                ctx.stroke();
+            };
+
+            // Bounds follow each layer's parallax so they line up with what was drawn.
+            ctx.setLineDash([4, 4]);
+            ctx.strokeStyle = DEBUG_COLORS.bounds;
+            tilemaps.forEach(tilemap => {
+                const offset = layerOffset(tilemap.layer);
+                ctx.strokeRect(tilemap.x + offset.x, tilemap.y + offset.y, tilemap.cols * tilemap.tileSize, tilemap.rows * tilemap.tileSize);
+            });
+            ctx.setLineDash([]);
+            sprites.forEach(sprite => {
+                const offset = layerOffset(sprite.layer);
+                const x = sprite.x + offset.x, y = sprite.y + offset.y;
+                ctx.strokeStyle = DEBUG_COLORS.bounds;
+                ctx.strokeRect(x, y, sprite.width, sprite.height);
+                if (sprite.vx || sprite.vy) {
+                    const center = { x: x + sprite.width / 2, y: y + sprite.height / 2 };
+                    line(center, { x: center.x + sprite.vx * DEBUG_VELOCITY_SECONDS, y: center.y + sprite.vy * DEBUG_VELOCITY_SECONDS }, DEBUG_COLORS.velocity);
+                }
+            });
+
+            if (camera.target) {
+                const target = { x: camera.target.x, y: camera.target.y };
+                const viewCenter = { x: camera.x + canvas.width / 2, y: camera.y + canvas.height / 2 };
+                line({ x: target.x - 6, y: target.y }, { x: target.x + 6, y: target.y }, DEBUG_COLORS.camera);
+                line({ x: target.x, y: target.y - 6 }, { x: target.x, y: target.y + 6 }, DEBUG_COLORS.camera);
+                line(target, viewCenter, DEBUG_COLORS.camera);
+            }
+
+            debugState.lines.forEach(({ from, to, color }) => line(toDebugPoint(from), toDebugPoint(to), color));
+            debugState.rects.forEach(({ target, color }) => {
+                ctx.strokeStyle = color;
+                ctx.strokeRect(target.x, target.y, target.width || 0, target.height || 0);
+            });
+            debugState.texts.forEach(({ text, position, color }) => {
+                const point = toDebugPoint(position);
+                ctx.fillStyle = color;
+                ctx.fillText(text, point.x, point.y);
+            });
+            ctx.restore();
+            clearDebugShapes();
+        }
+
+        window.Engine = {
+            getCanvas: () => canvas,
+            onUpdate: (callback) => { onUpdateCallback = callback; },
+            onFixedUpdate: (callback) => { onFixedUpdateCallback = callback; },
+            time: timeApi,
+            random: engineRandom,
+            replay: replayApi,
+            save: saveApi,
+            profiler: profilerApi,
+            debug: debugApi,
+            setData: (key, value) => state.set(key, value),
+            getData: (key) => state.get(key),
+            create: {
+                sprite: ({ x = 0, y = 0, width = 20, height = 20, asset = 'default', imageUrl = null, color = null, body = null, collisionLayer = 'default', collisionMask = null,
+                          spriteSheet = null, animations = {}, frame = 0, rotation = 0, scaleX = 1, scaleY = 1, alpha = 1, flipX = false, flipY = false, pivot = { x: 0.5, y: 0.5 }, layer = 'default', zIndex = 0, material = null, properties = {} }) => {
+                    if (imageUrl) {
+                        loadImage(imageUrl);
+                    }
+                    const colorMap = { player: 'skyblue', enemy: 'tomato', platform: 'lightgreen', coin: 'gold', default: 'white' };
+                    const sprite = { id: nextRandom(), x, y, width, height, asset, imageUrl, color: color || colorMap[asset] || colorMap.default, vx: 0, vy: 0, body: body ? createBody(body) : null, collisionLayer, collisionMask: normalizeMask(collisionMask),
+                        spriteSheet: createSpriteSheet(spriteSheet), animations, animation: null, frame, rotation, scaleX, scaleY, alpha, flipX, flipY, pivot, layer, zIndex,
+                        material: material ? createSpriteMaterial(material) : null, ...properties };
+                    sprite.play = (name, options) => playAnimation(sprite, name, options);
+                    sprite.stop = () => {
+                        if (sprite.animation) sprite.animation.playing = false;
+                        return sprite;
+                    };
+                    sprites.push(sprite);
+                    trackSceneEntity(sprite);
+                    broadphaseDirty = true;
+                    return sprite;
+                },
+                 particles: ({ x=0, y=0, count=10, color='orange', size=2, life=0.5 }) => {
+                    for(let i=0; i<count; i++) {
+                        particles.push({
+                            x, y,
+                            vx: (nextRandom() - 0.5) * 150,
+                            vy: (nextRandom() - 0.5) * 150,
+                            life: nextRandom() * life,
+                            color, size
+                        });
+                    }
+                },
+                tilemap: (config) => createTilemap(config)
+            },
+            destroy: (spriteToDestroy) => {
+                sprites = sprites.filter(s => s !== spriteToDestroy);
+                tilemaps = tilemaps.filter(t => t !== spriteToDestroy);
+                forgetContacts(spriteToDestroy);
+                untrackSceneEntity(spriteToDestroy);
+                removeEntityComponents(spriteToDestroy);
+                cancelTweensOf(spriteToDestroy);
+                broadphaseDirty = true;
+            },
+            input: inputApi,
+            physics: {
+                checkCollision: (spriteA, spriteB) => {
+                    if (!spriteA || !spriteB) return false;
+                    return spriteA.x < spriteB.x + spriteB.width &&
+                           spriteA.x + spriteA.width > spriteB.x &&
+                           spriteA.y < spriteB.y + spriteB.height &&
+                           spriteA.y + spriteA.height > spriteB.y;
+                },
+                getCollisions: (sprite) => {
+                    if (!sprite) return [];
+                    return querySprites(sprite).filter(other => sprite !== other && canCollide(sprite, other));
+                },
+                queryRect: (rect, { layers = null } = {}) => {
+                    return querySprites(rect).filter(s => inLayers(s.collisionLayer, layers));
+                },
+                queryRadius: (x, y, radius, { layers = null } = {}) => {
+                    return querySprites({ x: x - radius, y: y - radius, width: radius * 2, height: radius * 2 }).filter(s => {
+                        const dx = x - Math.max(s.x, Math.min(x, s.x + s.width));
+                        const dy = y - Math.max(s.y, Math.min(y, s.y + s.height));
+                        return dx * dx + dy * dy <= radius * radius && inLayers(s.collisionLayer, layers);
+                    });
+                },
+                queryLayer: (layer) => sprites.filter(s => s.collisionLayer === layer),
+                isSolidAt: (x, y) => getSolidTilesInRect({ x, y, width: 0.0001, height: 0.0001 }).length > 0,
+                getTileCollisions: (sprite) => sprite ? getSolidTilesInRect(sprite) : [],
+                setGravity: (x, y) => {
+                    physicsWorld.gravity.x = x;
+                    physicsWorld.gravity.y = y;
+                },
+                getGravity: () => ({ ...physicsWorld.gravity }),
+                applyImpulse: (sprite, ix, iy) => {
+                    if (!sprite || !sprite.body || sprite.body.type !== 'dynamic' || sprite.body.mass <= 0) return;
+                    sprite.vx += ix / sprite.body.mass;
+                    sprite.vy += iy / sprite.body.mass;
+                },
+                onCollisionEnter: (callback) => { physicsWorld.onCollisionEnter = callback; },
+                onCollisionExit: (callback) => { physicsWorld.onCollisionExit = callback; }
+            },
+            camera: {
+                follow: (sprite, offset = {x: 0, y: 0}) => {
+                    camera.target = sprite;
+                    camera.offset = offset;
+                }
+            },
+            ui: {
+                drawText: (config) => uiTasks.push(config)
+            },
+            audio: audioApi,
+            layers: {
+                define: (name, { order = 0, scrollFactor = 1, visible = true } = {}) => {
+                    const layer = getRenderLayer(name);
+                    layer.order = order;
+                    layer.visible = visible;
+                    if (typeof scrollFactor === 'number') {
+                        setLayerScrollFactor(name, scrollFactor);
+                    } else {
+                        setLayerScrollFactor(name, scrollFactor.x ?? 1, scrollFactor.y ?? 1);
+                    }
+                    return layer;
+                },
+                setVisible: (name, visible) => { getRenderLayer(name).visible = visible; },
+                setOrder: (name, order) => { getRenderLayer(name).order = order; },
+                setScrollFactor: (name, x, y) => setLayerScrollFactor(name, x, y),
+                get: (name) => getRenderLayer(name)
+            },
+            scenes: scenesApi,
+            world: worldApi,
+            tween: (target, options) => createTween(target, options),
+            easing: easings
+        };
+
+        function gameLoop(timestamp) {
+            profileBeginFrame();
+            const { deltaTime, fixedSteps } = advanceTime((timestamp - lastTime) / 1000 || 0);
+            lastTime = timestamp;
+            broadphaseDirty = true;
+            shaderTime += deltaTime;
+
+            if (camera.target) {
+                camera.x = camera.target.x - (canvas.width / 2) + camera.offset.x;
+                camera.y = camera.target.y - (canvas.height / 2) + camera.offset.y;
+            }
+            profileMark('input');
+            pollInput();
+
+            for (let i = 0; i < fixedSteps; i++) {
+                profileMark('update');
+                onFixedUpdateCallback(timeState.fixedStep);
+                profileMark('physics');
+                stepPhysics(timeState.fixedStep);
+            }
+
+            profileMark('update');
+            particles = particles.filter(p => p.life > 0);
+            particles.forEach(p => {
+                p.x += p.vx * deltaTime;
+                p.y += p.vy * deltaTime;
+                p.life -= deltaTime;
+            });
+            
+            profileMark('render');
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            ctx.save();
+            ctx.translate(-camera.x, -camera.y);
+            
+            profileMark('update');
+            onUpdateCallback(deltaTime);
+            updateScenes(deltaTime);
+            runSystems(deltaTime);
+            updateTweens(deltaTime);
+            updateAnimations(deltaTime);
+
+            profileMark('render');
+            drawLayers();
+
+            particles.forEach(p => {
+                ctx.fillStyle = p.color;
+                ctx.globalAlpha = Math.max(0, p.life / 0.5);
+                ctx.fillRect(p.x, p.y, p.size, p.size);
+            });
+            ctx.globalAlpha = 1.0;
+            drawDebugOverlay();
+
+            ctx.restore();
+
+            profileMark('ui');
+            uiTasks.forEach(task => {
+                ctx.fillStyle = task.color || 'white';
+                ctx.font = \`\${task.size || 16}px \${task.font || 'sans-serif'}\`;
+                ctx.textAlign = task.align || 'left';
+                ctx.fillText(task.text, task.x, task.y);
+            });
+            uiTasks = [];
+            drawVirtualJoystick(ctx);
+
+            const transitionCover = getSceneTransitionCover();
+            if (transitionCover) {
+                ctx.globalAlpha = transitionCover.alpha;
+                ctx.fillStyle = transitionCover.color;
+                ctx.fillRect(0, 0, canvas.width, canvas.height);
+                ctx.globalAlpha = 1.0;
+            }
+            drawProfilerOverlay(ctx);
+
+            profileEndFrame({ sprites: sprites.length, tilemaps: tilemaps.length, particles: particles.length });
+            requestAnimationFrame(gameLoop);
+        }
+
+        requestAnimationFrame(gameLoop);
+    `;
+    }
+
+    if (workspaceType === '3D') {
+        return `
+        ${consoleOverride}
+        ${spatialHash}
+        ${sceneManager}
+        ${ecsWorld}
+        ${tweenLibrary}
+        ${assetResolver}
+        ${randomSystem}
+        ${audioSystem}
+        ${timeSystem}
+        ${saveSystem}
+        ${frameProfiler}
+        ${debugDraw}
+        import * as THREE from 'three';
+        import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+        import { EffectComposer } from 'three/addons/postprocessing/EffectComposer.js';
+        import { RenderPass } from 'three/addons/postprocessing/RenderPass.js';
+        import { ShaderPass } from 'three/addons/postprocessing/ShaderPass.js';
+        import { UnrealBloomPass } from 'three/addons/postprocessing/UnrealBloomPass.js';
+        import { OutputPass } from 'three/addons/postprocessing/OutputPass.js';
+
         const canvas = document.getElementById('game-canvas');
         if (!canvas) throw new Error('Could not find canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error('Could not get 2D context');
 
-        function resizeCanvas() {
-            canvas.width = window.innerWidth;
-            canvas.height = window.innerHeight;
+        const uiCanvas = document.createElement('canvas');
+        const uiCtx = uiCanvas.getContext('2d');
+        document.body.appendChild(uiCanvas);
+        uiCanvas.style.position = 'absolute';
+        uiCanvas.style.left = '0';
+        uiCanvas.style.top = '0';
+        uiCanvas.style.pointerEvents = 'none';
+
+        const scene = new THREE.Scene();
+        scene.background = new THREE.Color(0x111111);
+        const camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
+        const renderer = new THREE.WebGLRenderer({ canvas: canvas, antialias: true });
+        // Post-processing renders several passes a frame; the profiler resets the counters itself.
+        renderer.info.autoReset = false;
+        renderer.setSize(window.innerWidth, window.innerHeight);
+
+        // Post-processing. The EffectComposer is only built once a pass is added; with no enabled
+        // passes the scene renders straight to the canvas as before. Shader passes read the
+        // frame from 'tDiffuse' at 'vUv' and get 'time' and 'resolution' uniforms for free.
+        const postfxVertexShader = 'varying vec2 vUv; void main() { vUv = uv; gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0); }';
+        const postfxShaders = {
+            vignette: {
+                uniforms: { offset: 1.0, darkness: 1.2 },
+                fragmentShader: [
+                    'uniform sampler2D tDiffuse; uniform float offset; uniform float darkness; varying vec2 vUv;',
+                    'void main() {',
+                    '    vec4 color = texture2D(tDiffuse, vUv);',
+                    '    vec2 uv = (vUv - 0.5) * offset;',
+                    '    gl_FragColor = vec4(mix(color.rgb, vec3(1.0 - darkness), dot(uv, uv)), color.a);',
+                    '}'
+                ].join('\\n')
+            },
+            pixelate: {
+                uniforms: { pixelSize: 4.0 },
+                fragmentShader: [
+                    'uniform sampler2D tDiffuse; uniform float pixelSize; uniform vec2 resolution; varying vec2 vUv;',
+                    'void main() {',
+                    '    vec2 cell = pixelSize / resolution;',
+                    '    gl_FragColor = texture2D(tDiffuse, cell * (floor(vUv / cell) + 0.5));',
+                    '}'
+                ].join('\\n')
+            },
+            crt: {
+                uniforms: { curvature: 0.08, scanlines: 0.25 },
+                fragmentShader: [
+                    'uniform sampler2D tDiffuse; uniform float curvature; uniform float scanlines; uniform float time; uniform vec2 resolution; varying vec2 vUv;',
+                    'void main() {',
+                    '    vec2 centered = vUv * 2.0 - 1.0;',
+                    '    vec2 uv = (centered + centered * curvature * dot(centered, centered)) * 0.5 + 0.5;',
+                    '    if (uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0) { gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0); return; }',
+                    '    vec4 color = texture2D(tDiffuse, uv);',
+                    '    float scan = sin((uv.y * resolution.y + time * 30.0) * 3.14159) * 0.5 + 0.5;',
+                    '    gl_FragColor = vec4(color.rgb * (1.0 - scanlines * scan), color.a);',
+                    '}'
+                ].join('\\n')
+            },
+            chromaticAberration: {
+                uniforms: { amount: 0.004 },
+                fragmentShader: [
+                    'uniform sampler2D tDiffuse; uniform float amount; varying vec2 vUv;',
+                    'void main() {',
+                    '    vec2 offset = (vUv - 0.5) * amount;',
+                    '    vec4 color = texture2D(tDiffuse, vUv);',
+                    '    gl_FragColor = vec4(texture2D(tDiffuse, vUv + offset).r, color.g, texture2D(tDiffuse, vUv - offset).b, color.a);',
+                    '}'
+                ].join('\\n')
+            }
+        };
+        let composer = null;
+        let postfxEffects = [];
+        let postfxEnabled = true;
+
+        function ensureComposer() {
+            if (composer) return composer;
+            composer = new EffectComposer(renderer);
+            composer.addPass(new RenderPass(scene, camera));
+            composer.addPass(new OutputPass());
+            return composer;
+        }
+
+        function createPostfxPass(name, options) {
+            if (name === 'bloom') {
+                const { strength = 1, radius = 0.4, threshold = 0.85 } = options;
+                return new UnrealBloomPass(new THREE.Vector2(window.innerWidth, window.innerHeight), strength, radius, threshold);
+            }
+            const definition = postfxShaders[name];
+            if (!definition) return null;
+            const uniforms = { tDiffuse: { value: null }, time: { value: 0 }, resolution: { value: new THREE.Vector2(window.innerWidth, window.innerHeight) } };
+            Object.entries({ ...definition.uniforms, ...options }).forEach(([key, value]) => { uniforms[key] = { value }; });
+            return new ShaderPass({ uniforms, vertexShader: postfxVertexShader, fragmentShader: definition.fragmentShader });
+        }
+
+        function setPostfxOptions(effect, options) {
+            Object.entries(options).forEach(([key, value]) => {
+                if (effect.pass.uniforms && effect.pass.uniforms[key]) effect.pass.uniforms[key].value = value;
+                else if (key in effect.pass) effect.pass[key] = value;
+            });
+        }
+
+        function addPostfx(name, options = {}) {
+            const pass = createPostfxPass(name, options);
+            if (!pass) {
+                console.warn(\`Unknown post effect "\${name}". Register it first with Engine.postfx.register().\`);
+                return null;
+            }
+            const activeComposer = ensureComposer();
+            // Keep the OutputPass (colour space conversion) last.
+            activeComposer.insertPass(pass, activeComposer.passes.length - 1);
+            const effect = {
+                name,
+                pass,
+                get enabled() { return pass.enabled; },
+                set enabled(value) { pass.enabled = value; },
+                set: (newOptions) => setPostfxOptions(effect, newOptions),
+                remove: () => removePostfx(effect)
+            };
+            postfxEffects.push(effect);
+            return effect;
+        }
+
+        function removePostfx(target) {
+            const removed = postfxEffects.filter(effect => effect === target || effect.name === target);
+            removed.forEach(effect => {
+                composer.removePass(effect.pass);
+                effect.pass.dispose();
+            });
+            postfxEffects = postfxEffects.filter(effect => !removed.includes(effect));
+        }
+
+        function setPostfxEnabled(name, enabled) {
+            if (name === undefined || name === null) {
+                postfxEnabled = enabled;
+                return;
+            }
+            postfxEffects.forEach(effect => {
+                if (effect.name === name) effect.enabled = enabled;
+            });
+        }
+
+        function renderFrame(deltaTime) {
+            if (!composer || !postfxEnabled || !postfxEffects.some(effect => effect.enabled)) {
+                renderer.render(scene, camera);
+                return;
+            }
+            postfxEffects.forEach(effect => {
+                if (effect.pass.uniforms && effect.pass.uniforms.time) effect.pass.uniforms.time.value += deltaTime;
+            });
+            composer.render(deltaTime);
+        }
+        
+        const clock = new THREE.Clock();
+        const state = new Map();
+        let uiTasks = [];
+
+        function resizeAll() {
+             camera.aspect = window.innerWidth / window.innerHeight;
+            camera.updateProjectionMatrix();
+            renderer.setSize(window.innerWidth, window.innerHeight);
+            if (composer) composer.setSize(window.innerWidth, window.innerHeight);
+            postfxEffects.forEach(effect => {
+                if (effect.pass.uniforms && effect.pass.uniforms.resolution) effect.pass.uniforms.resolution.value.set(window.innerWidth, window.innerHeight);
+            });
+            uiCanvas.width = window.innerWidth;
+            uiCanvas.height = window.innerHeight;
+        }
+        window.addEventListener('resize', resizeAll);
+        resizeAll();
+
+        ${inputSystem}
+        ${inputRecorder}
+
+        // The 3D pointer's world position is where it hits the ground plane (y = 0).
+        const pointerRaycaster = new THREE.Raycaster();
+        const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+        const pointerHit = new THREE.Vector3();
+
+        function updatePointerWorld(pointer) {
+            pointerRaycaster.setFromCamera(new THREE.Vector2(pointer.ndcX, pointer.ndcY), camera);
+            if (pointerRaycaster.ray.intersectPlane(groundPlane, pointerHit)) {
+                pointer.worldX = pointerHit.x;
+                pointer.worldY = pointerHit.y;
+                pointer.worldZ = pointerHit.z;
+            }
+        }
+
+        let meshes = [];
+        let onUpdateCallback = (deltaTime) => {};
+        const animationMixers = new Map();
+        // Directional and spot light targets that create.light added to the scene; destroy removes them with their light.
+        const ownedLightTargets = new WeakMap();
+
+        // Shader materials for meshes. Sources may be inline GLSL or .glsl project files; files
+        // load asynchronously behind a flat grey placeholder. Every shader material gets 'time'
+        // and 'resolution' uniforms, and the default vertex shader provides vUv and vNormal.
+        const defaultVertexShader = 'varying vec2 vUv; varying vec3 vNormal; void main() { vUv = uv; vNormal = normalize(normalMatrix * normal); gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0); }';
+        const placeholderFragmentShader = 'void main() { gl_FragColor = vec4(0.5, 0.5, 0.5, 1.0); }';
+        const shaderMaterials = new Set();
+        const materialSides = { front: THREE.FrontSide, back: THREE.BackSide, double: THREE.DoubleSide };
+
+        function toUniformValue(value) {
+            if (Array.isArray(value)) {
+                if (value.length === 2) return new THREE.Vector2(...value);
+                if (value.length === 3) return new THREE.Vector3(...value);
+                if (value.length === 4) return new THREE.Vector4(...value);
+            }
+            if (typeof value === 'string' && value.startsWith('#')) return new THREE.Color(value);
+            return value;
+        }
+
+        function createShaderMaterial({ vertexShader = defaultVertexShader, fragmentShader, uniforms = {}, transparent = false, side = 'front' }) {
+            const materialUniforms = {
+                time: { value: 0 },
+                resolution: { value: new THREE.Vector2(window.innerWidth, window.innerHeight) }
+            };
+            Object.entries(uniforms).forEach(([name, value]) => { materialUniforms[name] = { value: toUniformValue(value) }; });
+            const fromFiles = isShaderPath(vertexShader) || isShaderPath(fragmentShader);
+            const material = new THREE.ShaderMaterial({
+                uniforms: materialUniforms,
+                vertexShader: fromFiles ? defaultVertexShader : vertexShader,
+                fragmentShader: fromFiles ? placeholderFragmentShader : fragmentShader,
+                transparent,
+                side: materialSides[side] ?? THREE.FrontSide
+            });
+            if (fromFiles) {
+                Promise.all([loadShaderSource(vertexShader), loadShaderSource(fragmentShader)]).then(([vertexSource, fragmentSource]) => {
+                    if (vertexSource === null || fragmentSource === null) return;
+                    material.vertexShader = vertexSource;
+                    material.fragmentShader = fragmentSource;
+                    material.needsUpdate = true;
+                });
+            }
+            shaderMaterials.add(material);
+            material.addEventListener('dispose', () => shaderMaterials.delete(material));
+            return material;
+        }
+
+        function updateShaderMaterials(deltaTime) {
+            shaderMaterials.forEach(material => {
+                material.uniforms.time.value += deltaTime;
+                material.uniforms.resolution.value.set(window.innerWidth, window.innerHeight);
+            });
+        }
+
+        // Geometries and materials built from the same create.mesh parameters are shared and
+        // reference-counted, so Engine.destroy only disposes them once nothing uses them. A mesh
+        // that tweens its material gets its own copy first (see ownMaterial), so the rest keep theirs.
+        const sharedResources = new Map();
+        const sharedResourceKeys = new WeakMap();
+
+        function acquireShared(key, create) {
+            let entry = sharedResources.get(key);
+            if (!entry) {
+                entry = { resource: create(), refs: 0 };
+                sharedResources.set(key, entry);
+                sharedResourceKeys.set(entry.resource, key);
+            }
+            entry.refs++;
+            return entry.resource;
+        }
+
+        function disposeResource(resource) {
+            if (resource.map && !resource.userData.borrowedMap) resource.map.dispose();
+            resource.dispose();
+        }
+
+        // Returns false for resources the cache does not own; the caller disposes those itself.
+        function releaseShared(resource) {
+            const key = sharedResourceKeys.get(resource);
+            if (key === undefined) return false;
+            const entry = sharedResources.get(key);
+            entry.refs--;
+            if (entry.refs <= 0) {
+                sharedResources.delete(key);
+                sharedResourceKeys.delete(resource);
+                disposeResource(resource);
+            }
+            return true;
+        }
+
+        function createGeometry(geometry) {
+            switch(geometry) {
+                case 'sphere': return new THREE.SphereGeometry(0.5, 32, 16);
+                case 'capsule': return new THREE.CapsuleGeometry(0.5, 0.5, 16, 8);
+                case 'plane': return new THREE.PlaneGeometry(1, 1);
+                case 'box': default: return new THREE.BoxGeometry(1, 1, 1);
+            }
+        }
+
+        function createMaterial(material, color, textureUrl) {
+            const matParams = { color };
+            if (textureUrl) {
+                const textureLoader = new THREE.TextureLoader();
+                matParams.map = textureLoader.load(resolveAssetUrl(textureUrl));
+            }
+            switch(material) {
+                case 'phong': return new THREE.MeshPhongMaterial(matParams);
+                case 'lambert': return new THREE.MeshLambertMaterial(matParams);
+                case 'standard': return new THREE.MeshStandardMaterial(matParams);
+                case 'normal': default: return new THREE.MeshNormalMaterial();
+            }
+        }
+
+        function acquireGeometry(geometry) {
+            return acquireShared('geometry:' + geometry, () => createGeometry(geometry));
+        }
+
+        // Shader materials and uniqueMaterial meshes get their own instance; the rest share.
+        function acquireMaterial(material, color, textureUrl, unique = false) {
+            if (typeof material === 'object') return createShaderMaterial(material);
+            if (unique) return createMaterial(material, color, textureUrl);
+            return acquireShared('material:' + JSON.stringify([material, color, textureUrl]), () => createMaterial(material, color, textureUrl));
+        }
+
+        // Swaps a shared material for a private copy before one object changes it. The copy keeps
+        // using the shared texture, which stays owned by the cached material.
+        function ownMaterial(object) {
+            const material = object && object.material;
+            if (!material || Array.isArray(material) || !sharedResourceKeys.has(material)) return material;
+            const copy = material.clone();
+            copy.userData.borrowedMap = !!copy.map;
+            releaseShared(material);
+            object.material = copy;
+            return copy;
+        }
+
+        // Instanced meshes draw many copies of one geometry and material in a single draw call.
+        // Each instance is a handle with its own position, rotation, scale and visibility; the
+        // matrices are rebuilt every frame unless the group has autoUpdate: false, in which case
+        // call group.update() after moving instances.
+        let instanceGroups = [];
+        const instanceGroupOf = new WeakMap();
+        const instanceDummy = new THREE.Object3D();
+
+        function createInstances({ geometry = 'box', material = 'standard', color = 0xcccccc, textureUrl = null, count = 100, positions = null, autoUpdate = true, castShadow = false, receiveShadow = false, collisionLayer = 'default', collisionMask = null, properties = {} } = {}) {
+            const instancedMesh = new THREE.InstancedMesh(acquireGeometry(geometry), acquireMaterial(material, color, textureUrl), count);
+            instancedMesh.castShadow = castShadow;
+            instancedMesh.receiveShadow = receiveShadow;
+            instancedMesh.userData.collisionLayer = collisionLayer;
+            instancedMesh.userData.collisionMask = normalizeMask(collisionMask);
+            Object.assign(instancedMesh.userData, properties);
+
+            const group = {
+                isInstanceGroup: true,
+                object: instancedMesh,
+                count,
+                autoUpdate,
+                instances: [],
+                get: (index) => group.instances[index],
+                update: () => updateInstanceMatrices(group)
+            };
+            for (let index = 0; index < count; index++) {
+                group.instances.push({
+                    isInstance: true,
+                    index,
+                    group,
+                    position: new THREE.Vector3(...((positions && positions[index]) || [0, 0, 0])),
+                    rotation: new THREE.Euler(),
+                    scale: new THREE.Vector3(1, 1, 1),
+                    visible: true,
+                    setColor: (value) => {
+                        instancedMesh.setColorAt(index, new THREE.Color(value));
+                        instancedMesh.instanceColor.needsUpdate = true;
+                    }
+                });
+            }
+            updateInstanceMatrices(group);
+
+            scene.add(instancedMesh);
+            meshes.push(instancedMesh);
+            instanceGroups.push(group);
+            instanceGroupOf.set(instancedMesh, group);
+            trackSceneEntity(instancedMesh);
+            broadphaseDirty = true;
+            return group;
+        }
+
+        function updateInstanceMatrices(group) {
+            group.instances.forEach(instance => {
+                instanceDummy.position.copy(instance.position);
+                instanceDummy.rotation.copy(instance.rotation);
+                if (instance.visible) instanceDummy.scale.copy(instance.scale);
+                else instanceDummy.scale.set(0, 0, 0);
+                instanceDummy.updateMatrix();
+                group.object.setMatrixAt(instance.index, instanceDummy.matrix);
+            });
+            group.object.instanceMatrix.needsUpdate = true;
+            // Bounds cover every instance; the broadphase and raycasts rely on them.
+            group.object.computeBoundingBox();
+            group.object.computeBoundingSphere();
+        }
+
+        function updateInstanceGroups() {
+            instanceGroups.forEach(group => {
+                if (group.autoUpdate) updateInstanceMatrices(group);
+            });
+        }
+
+        function disposeObject3D(object3D) {
+            object3D.traverse(child => {
+                if (child.geometry && !releaseShared(child.geometry)) child.geometry.dispose();
+                if (child.material) {
+                    const materials = Array.isArray(child.material) ? child.material : [child.material];
+                    materials.forEach(m => {
+                        if (!releaseShared(m)) disposeResource(m);
+                    });
+                }
+                if (child.isInstancedMesh) child.dispose();
+                // Frees a shadow-casting light's shadow map.
+                if (child.isLight) child.dispose();
+            });
+        }
+
+        // Model handles and instance groups wrap an object; the engine accepts either wherever
+        // it takes a mesh.
+        function toObject3D(value) {
+            return value && (value.isModelHandle || value.isInstanceGroup) ? value.object : value;
+        }
+
+        // Loads a glTF model from a URL or project path. The returned handle's object is added
+        // to the scene immediately so it can be positioned right away; the model's meshes
+        // appear inside it once 'ready' resolves.
+        function loadModel(source, { position = [0, 0, 0], rotation = [0, 0, 0], scale = [1, 1, 1], collisionLayer = 'default', collisionMask = null, castShadow = false, receiveShadow = false, properties = {} } = {}) {
+            const group = new THREE.Group();
+            group.position.set(...position);
+            group.rotation.set(...rotation);
+            group.scale.set(...scale);
+            group.userData.collisionLayer = collisionLayer;
+            group.userData.collisionMask = normalizeMask(collisionMask);
+            Object.assign(group.userData, properties);
+            scene.add(group);
+            meshes.push(group);
+            trackSceneEntity(group);
+            broadphaseDirty = true;
+
+            const mixer = new THREE.AnimationMixer(group);
+            animationMixers.set(group, mixer);
+            let currentAction = null;
+
+            const handle = {
+                isModelHandle: true,
+                object: group,
+                mixer,
+                clips: [],
+                get position() { return group.position; },
+                get rotation() { return group.rotation; },
+                get scale() { return group.scale; },
+                play: (name, { loop = true, fadeIn = 0.2, timeScale = 1 } = {}) => {
+                    const clip = typeof name === 'number' ? handle.clips[name] : THREE.AnimationClip.findByName(handle.clips, name);
+                    if (!clip) {
+                        console.warn('Unknown animation clip: ' + name);
+                        return null;
+                    }
+                    const action = mixer.clipAction(clip);
+                    if (action === currentAction && action.isRunning()) return action;
+                    action.reset();
+                    action.setLoop(loop ? THREE.LoopRepeat : THREE.LoopOnce, Infinity);
+                    action.clampWhenFinished = !loop;
+                    action.timeScale = timeScale;
+                    if (currentAction && fadeIn > 0) {
+                        action.crossFadeFrom(currentAction, fadeIn, false);
+                    } else if (currentAction) {
+                        currentAction.stop();
+                    }
+                    action.play();
+                    currentAction = action;
+                    return action;
+                },
+                stop: () => {
+                    mixer.stopAllAction();
+                    currentAction = null;
+                }
+            };
+
+            // Relative files referenced by a project .gltf (buffers, textures) resolve against
+            // the model's own folder in the workspace rather than against its blob URL.
+            const sourcePath = normalizeProjectPath(source);
+            const modelFolder = sourcePath.includes('/') ? sourcePath.slice(0, sourcePath.lastIndexOf('/') + 1) : '';
+            const resolvedUrl = resolveAssetUrl(source);
+            const baseUrl = THREE.LoaderUtils.extractUrlBase(resolvedUrl);
+            const manager = new THREE.LoadingManager();
+            manager.setURLModifier(url => {
+                if (url !== resolvedUrl && url.startsWith(baseUrl) && resolvedUrl.startsWith('blob:')) {
+                    return resolveAssetUrl(modelFolder + url.slice(baseUrl.length));
+                }
+                return url;
+            });
+
+            // ready always resolves with the handle. A failed load is reported once here and left
+            // in handle.error; rejecting as well would log it again as an unhandled rejection.
+            handle.error = null;
+            handle.ready = new Promise((resolve) => {
+                new GLTFLoader(manager).load(resolvedUrl, (gltf) => {
+                    gltf.scene.traverse(child => {
+                        if (!child.isMesh) return;
+                        child.castShadow = castShadow;
+                        child.receiveShadow = receiveShadow;
+                    });
+                    group.add(gltf.scene);
+                    handle.clips = gltf.animations;
+                    broadphaseDirty = true;
+                    resolve(handle);
+                }, undefined, (error) => {
+                    console.error('Failed to load model: ' + source);
+                    handle.error = error;
+                    resolve(handle);
+                });
+            });
+            return handle;
+        }
+
+        // Mesh bounds are cached per mesh and refreshed, along with the broadphase, at most
+        // once per frame or when meshes are created/destroyed.
+        const broadphase = createSpatialHash(4);
+        let broadphaseDirty = true;
+        const meshBounds = new WeakMap();
+        const scratchBoxA = new THREE.Box3();
+        const scratchBoxB = new THREE.Box3();
+
+        function updateMeshBounds(mesh) {
+            let box = meshBounds.get(mesh);
+            if (!box) {
+                box = new THREE.Box3();
+                meshBounds.set(mesh, box);
+            }
+            return box.setFromObject(mesh);
+        }
+
+        function refreshBroadphase() {
+            if (!broadphaseDirty) return;
+            broadphase.clear();
+            meshes.forEach(mesh => {
+                const box = updateMeshBounds(mesh);
+                if (!box.isEmpty()) broadphase.insert(mesh, box.min.toArray(), box.max.toArray());
+            });
+            broadphaseDirty = false;
+        }
+
+        function queryMeshes(box) {
+            refreshBroadphase();
+            return broadphase.query(box.min.toArray(), box.max.toArray()).filter(mesh => meshBounds.get(mesh).intersectsBox(box));
+        }
+
+        function canCollide(a, b) {
+            return layersCollide(a.userData.collisionLayer, a.userData.collisionMask, b.userData.collisionLayer, b.userData.collisionMask);
+        }
+
+        // Rigid-body physics for meshes created with a 'physics' option (or Engine.physics.addBody).
+        // Bodies translate but never rotate from collisions, which keeps character controllers
+        // upright. Static 'mesh' colliders use the mesh's triangles as placed at creation;
+        // moving bodies collide with them as spheres or capsules.
+        const physicsWorld = {
+            gravity: new THREE.Vector3(0, -9.81, 0),
+            bodies: [],
+            contacts: new Map(),
+            onCollisionEnter: null,
+            onCollisionExit: null
+        };
+        const MIN_HALF_EXTENT = 0.05;
+        const PHYSICS_STEP = 1 / 60;
+
+        function inferColliderShape(mesh) {
+            const type = mesh.geometry ? mesh.geometry.type : '';
+            if (type.startsWith('Sphere')) return 'sphere';
+            if (type.startsWith('Capsule')) return 'capsule';
+            return 'box';
+        }
+
+        function createPhysicsBody(mesh, { type = 'dynamic', shape = null, mass = 1, friction = 0.5, restitution = 0, gravityScale = 1, linearDamping = 0.01, sensor = false, radius = null, halfExtents = null, halfHeight = null, onCollisionEnter = null, onCollisionExit = null } = {}) {
+            mesh.updateMatrixWorld(true);
+            const localBox = new THREE.Box3();
+            if (mesh.geometry) {
+                mesh.geometry.computeBoundingBox();
+                localBox.copy(mesh.geometry.boundingBox);
+            } else {
+                localBox.setFromObject(mesh).applyMatrix4(mesh.matrixWorld.clone().invert());
+            }
+            let colliderShape = shape || inferColliderShape(mesh);
+            if (colliderShape === 'mesh' && type !== 'static') {
+                console.warn('Mesh colliders must be static; using a box collider instead.');
+                colliderShape = 'box';
+            }
+            const body = {
+                mesh, type, mass, friction, restitution, gravityScale, linearDamping, sensor,
+                onCollisionEnter, onCollisionExit,
+                shape: colliderShape,
+                velocity: new THREE.Vector3(),
+                grounded: false,
+                localCenter: localBox.isEmpty() ? new THREE.Vector3() : localBox.getCenter(new THREE.Vector3()),
+                localSize: localBox.isEmpty() ? new THREE.Vector3(1, 1, 1) : localBox.getSize(new THREE.Vector3()),
+                radius, halfHeight,
+                halfExtents: halfExtents ? new THREE.Vector3(...halfExtents) : null,
+                triangles: null,
+                triangleHash: null
+            };
+            if (colliderShape === 'mesh') buildTriangleCollider(body);
+            removePhysicsBody(mesh);
+            mesh.body = body;
+            physicsWorld.bodies.push(body);
+            return body;
+        }
+
+        // The body's contacts are dropped silently, so no exit event fires for a destroyed mesh.
+        function removePhysicsBody(mesh) {
+            if (!mesh.body) return;
+            physicsWorld.bodies = physicsWorld.bodies.filter(body => body !== mesh.body);
+            physicsWorld.contacts.forEach((pair, key) => {
+                if (pair.includes(mesh.body)) physicsWorld.contacts.delete(key);
+            });
+            delete mesh.body;
+        }
+
+        function buildTriangleCollider(body) {
+            body.mesh.updateMatrixWorld(true);
+            body.triangles = [];
+            body.triangleHash = createSpatialHash(2);
+            body.mesh.traverse(child => {
+                if (!child.isMesh || !child.geometry) return;
+                const positions = child.geometry.attributes.position;
+                const index = child.geometry.index;
+                const count = index ? index.count : positions.count;
+                const vertex = (i) => new THREE.Vector3().fromBufferAttribute(positions, index ? index.getX(i) : i).applyMatrix4(child.matrixWorld);
+                for (let i = 0; i + 2 < count; i += 3) {
+                    const triangle = new THREE.Triangle(vertex(i), vertex(i + 1), vertex(i + 2));
+                    const bounds = new THREE.Box3().setFromPoints([triangle.a, triangle.b, triangle.c]);
+                    body.triangles.push(triangle);
+                    body.triangleHash.insert(triangle, bounds.min.toArray(), bounds.max.toArray());
+                }
+            });
+        }
+
+        // World-space collider for the body's current mesh transform.
+        function getCollider(body) {
+            const mesh = body.mesh;
+            const scale = new THREE.Vector3(Math.abs(mesh.scale.x), Math.abs(mesh.scale.y), Math.abs(mesh.scale.z));
+            const center = body.localCenter.clone().multiply(mesh.scale).applyQuaternion(mesh.quaternion).add(mesh.position);
+            const size = body.localSize.clone().multiply(scale);
+            const collider = { shape: body.shape, center };
+
+            if (body.shape === 'sphere') {
+                collider.radius = body.radius ?? Math.max(size.x, size.y, size.z) / 2;
+            } else if (body.shape === 'capsule' || (body.shape === 'box' && body.useCapsuleProxy)) {
+                collider.shape = 'capsule';
+                collider.radius = body.radius ?? Math.max(MIN_HALF_EXTENT, (body.shape === 'box' ? Math.min(size.x, size.z) : Math.max(size.x, size.z)) / 2);
+                const halfHeight = body.halfHeight ?? Math.max(0, size.y / 2 - collider.radius);
+                const axis = new THREE.Vector3(0, 1, 0).applyQuaternion(mesh.quaternion);
+                collider.start = center.clone().addScaledVector(axis, -halfHeight);
+                collider.end = center.clone().addScaledVector(axis, halfHeight);
+            } else if (body.shape === 'box') {
+                const half = body.halfExtents ? body.halfExtents.clone() : size.multiplyScalar(0.5);
+                collider.halfExtents = half.max(new THREE.Vector3(MIN_HALF_EXTENT, MIN_HALF_EXTENT, MIN_HALF_EXTENT));
+                collider.axes = [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1)].map(axis => axis.applyQuaternion(mesh.quaternion));
+            }
+            return collider;
+        }
+
+        function closestPointOnSegment(point, start, end) {
+            const segment = end.clone().sub(start);
+            const lengthSq = segment.lengthSq();
+            const t = lengthSq > 0 ? Math.max(0, Math.min(1, point.clone().sub(start).dot(segment) / lengthSq)) : 0;
+            return start.clone().addScaledVector(segment, t);
+        }
+
+        // Closest points between two segments (Ericson, Real-Time Collision Detection 5.1.9).
+        function closestPointsBetweenSegments(p1, q1, p2, q2) {
+            const d1 = q1.clone().sub(p1);
+            const d2 = q2.clone().sub(p2);
+            const r = p1.clone().sub(p2);
+            const a = d1.dot(d1);
+            const e = d2.dot(d2);
+            const f = d2.dot(r);
+            let s = 0;
+            let t = 0;
+            if (a <= 1e-9 && e <= 1e-9) return [p1.clone(), p2.clone()];
+            if (a <= 1e-9) {
+                t = Math.max(0, Math.min(1, f / e));
+            } else {
+                const c = d1.dot(r);
+                if (e <= 1e-9) {
+                    s = Math.max(0, Math.min(1, -c / a));
+                } else {
+                    const b = d1.dot(d2);
+                    const denom = a * e - b * b;
+                    s = denom > 1e-9 ? Math.max(0, Math.min(1, (b * f - c * e) / denom)) : 0;
+                    t = (b * s + f) / e;
+                    if (t < 0) {
+                        t = 0;
+                        s = Math.max(0, Math.min(1, -c / a));
+                    } else if (t > 1) {
+                        t = 1;
+                        s = Math.max(0, Math.min(1, (b - c) / a));
+                    }
+                }
+            }
+            return [p1.clone().addScaledVector(d1, s), p2.clone().addScaledVector(d2, t)];
+        }
+
+        function closestPointOnBox(point, box) {
+            const offset = point.clone().sub(box.center);
+            const result = box.center.clone();
+            box.axes.forEach((axis, i) => {
+                const half = box.halfExtents.getComponent(i);
+                result.addScaledVector(axis, Math.max(-half, Math.min(half, offset.dot(axis))));
+            });
+            return result;
+        }
+
+        // Each contact test returns { normal, depth } with the normal pointing from B towards A.
+        function sphereContact(centerA, radiusA, centerB, radiusB) {
+            const delta = centerA.clone().sub(centerB);
+            const distance = delta.length();
+            const depth = radiusA + radiusB - distance;
+            if (depth <= 0) return null;
+            const normal = distance > 1e-9 ? delta.divideScalar(distance) : new THREE.Vector3(0, 1, 0);
+            return { normal, depth };
+        }
+
+        function sphereBoxContact(center, radius, box) {
+            const closest = closestPointOnBox(center, box);
+            const delta = center.clone().sub(closest);
+            const distance = delta.length();
+            if (distance > 1e-9) {
+                return distance < radius ? { normal: delta.divideScalar(distance), depth: radius - distance } : null;
+            }
+            // The centre is inside the box: push out through the nearest face.
+            const offset = center.clone().sub(box.center);
+            let best = null;
+            box.axes.forEach((axis, i) => {
+                const local = offset.dot(axis);
+                const penetration = box.halfExtents.getComponent(i) - Math.abs(local);
+                if (!best || penetration < best.penetration) {
+                    best = { penetration, normal: axis.clone().multiplyScalar(local < 0 ? -1 : 1) };
+                }
+            });
+            return { normal: best.normal, depth: best.penetration + radius };
+        }
+
+        function capsuleBoxContact(capsule, box) {
+            let point = closestPointOnSegment(box.center, capsule.start, capsule.end);
+            for (let i = 0; i < 2; i++) {
+                point = closestPointOnSegment(closestPointOnBox(point, box), capsule.start, capsule.end);
+            }
+            return sphereBoxContact(point, capsule.radius, box);
+        }
+
+        // Separating-axis test between two oriented boxes.
+        function boxBoxContact(boxA, boxB) {
+            const axes = [...boxA.axes, ...boxB.axes];
+            boxA.axes.forEach(a => boxB.axes.forEach(b => {
+                const cross = a.clone().cross(b);
+                if (cross.lengthSq() > 1e-6) axes.push(cross.normalize());
+            }));
+            const delta = boxA.center.clone().sub(boxB.center);
+            const projectedRadius = (box, axis) => box.axes.reduce((sum, boxAxis, i) => sum + Math.abs(boxAxis.dot(axis)) * box.halfExtents.getComponent(i), 0);
+            let best = null;
+            for (const axis of axes) {
+                const distance = delta.dot(axis);
+                const overlap = projectedRadius(boxA, axis) + projectedRadius(boxB, axis) - Math.abs(distance);
+                if (overlap <= 0) return null;
+                if (!best || overlap < best.depth) {
+                    best = { normal: axis.clone().multiplyScalar(distance < 0 ? -1 : 1), depth: overlap };
+                }
+            }
+            return best;
+        }
+
+        function flipContact(contact) {
+            if (contact) contact.normal.negate();
+            return contact;
+        }
+
+        function colliderContact(a, b) {
+            if (a.shape === 'sphere' && b.shape === 'sphere') return sphereContact(a.center, a.radius, b.center, b.radius);
+            if (a.shape === 'sphere' && b.shape === 'box') return sphereBoxContact(a.center, a.radius, b);
+            if (a.shape === 'box' && b.shape === 'sphere') return flipContact(sphereBoxContact(b.center, b.radius, a));
+            if (a.shape === 'capsule' && b.shape === 'box') return capsuleBoxContact(a, b);
+            if (a.shape === 'box' && b.shape === 'capsule') return flipContact(capsuleBoxContact(b, a));
+            if (a.shape === 'box' && b.shape === 'box') return boxBoxContact(a, b);
+            if (a.shape === 'sphere' && b.shape === 'capsule') {
+                return sphereContact(a.center, a.radius, closestPointOnSegment(a.center, b.start, b.end), b.radius);
+            }
+            if (a.shape === 'capsule' && b.shape === 'sphere') {
+                return sphereContact(closestPointOnSegment(b.center, a.start, a.end), a.radius, b.center, b.radius);
+            }
+            if (a.shape === 'capsule' && b.shape === 'capsule') {
+                const [pointA, pointB] = closestPointsBetweenSegments(a.start, a.end, b.start, b.end);
+                return sphereContact(pointA, a.radius, pointB, b.radius);
+            }
+            return null;
+        }
+
+        function triangleContact(collider, triangle) {
+            const closest = new THREE.Vector3();
+            if (collider.shape === 'sphere') {
+                triangle.closestPointToPoint(collider.center, closest);
+                return sphereContact(collider.center, collider.radius, closest, 0);
+            }
+            let point = closestPointOnSegment(triangle.getMidpoint(new THREE.Vector3()), collider.start, collider.end);
+            for (let i = 0; i < 2; i++) {
+                triangle.closestPointToPoint(point, closest);
+                point = closestPointOnSegment(closest, collider.start, collider.end);
+            }
+            triangle.closestPointToPoint(point, closest);
+            return sphereContact(point, collider.radius, closest, 0);
+        }
+
+        function physicsContactKey(a, b) {
+            return a.mesh.id < b.mesh.id ? a.mesh.id + ':' + b.mesh.id : b.mesh.id + ':' + a.mesh.id;
+        }
+
+        function inverseMass(body) {
+            return body.type === 'dynamic' && body.mass > 0 ? 1 / body.mass : 0;
+        }
+
+        function resolvePhysicsContact(a, b, contact) {
+            const invMassA = inverseMass(a);
+            const invMassB = inverseMass(b);
+            const totalInvMass = invMassA + invMassB;
+            if (totalInvMass === 0) return;
+            const { normal, depth } = contact;
+
+            const correction = Math.max(depth - 0.001, 0) / totalInvMass;
+            a.mesh.position.addScaledVector(normal, correction * invMassA);
+            b.mesh.position.addScaledVector(normal, -correction * invMassB);
+
+            const relative = a.velocity.clone().sub(b.velocity);
+            const normalSpeed = relative.dot(normal);
+            if (normalSpeed < 0) {
+                // Restitution only above a small impact speed, so resting bodies do not jitter.
+                const restitution = normalSpeed < -1 ? Math.max(a.restitution, b.restitution) : 0;
+                const impulse = -(1 + restitution) * normalSpeed / totalInvMass;
+                a.velocity.addScaledVector(normal, impulse * invMassA);
+                b.velocity.addScaledVector(normal, -impulse * invMassB);
+
+                const tangent = relative.addScaledVector(normal, -normalSpeed);
+                const tangentSpeed = tangent.length();
+                if (tangentSpeed > 1e-6) {
+                    tangent.divideScalar(tangentSpeed);
+                    const friction = Math.sqrt(a.friction * b.friction);
+                    const frictionImpulse = Math.min(tangentSpeed / totalInvMass, impulse * friction);
+                    a.velocity.addScaledVector(tangent, -frictionImpulse * invMassA);
+                    b.velocity.addScaledVector(tangent, frictionImpulse * invMassB);
+                }
+            }
+
+            if (normal.y > 0.6) a.grounded = true;
+            if (normal.y < -0.6) b.grounded = true;
+        }
+
+        function resolveTriangleMesh(body, meshBody, contacts) {
+            // Boxes collide with triangle meshes through a capsule proxy.
+            body.useCapsuleProxy = body.shape === 'box';
+            const bounds = updateMeshBounds(body.mesh).clone().expandByScalar(0.05);
+            meshBody.triangleHash.query(bounds.min.toArray(), bounds.max.toArray()).forEach(triangle => {
+                const contact = triangleContact(getCollider(body), triangle);
+                if (!contact) return;
+                contacts.set(physicsContactKey(body, meshBody), [body, meshBody]);
+                if (!body.sensor && !meshBody.sensor) resolvePhysicsContact(body, meshBody, contact);
+            });
+            body.useCapsuleProxy = false;
+        }
+
+        function stepPhysicsWorld(deltaTime) {
+            const elapsed = Math.min(deltaTime, 0.1);
+            if (elapsed <= 0 || physicsWorld.bodies.length === 0) return;
+            const substeps = Math.max(1, Math.ceil(elapsed / PHYSICS_STEP));
+            const dt = elapsed / substeps;
+            const contacts = new Map();
+            const dynamicOrder = new Map();
+            physicsWorld.bodies.filter(body => body.type === 'dynamic').forEach((body, i) => dynamicOrder.set(body, i));
+
+            for (let step = 0; step < substeps; step++) {
+                physicsWorld.bodies.forEach(body => {
+                    if (body.type === 'static') return;
+                    if (body.type === 'dynamic') {
+                        body.grounded = false;
+                        body.velocity.addScaledVector(physicsWorld.gravity, body.gravityScale * dt);
+                        body.velocity.multiplyScalar(Math.max(0, 1 - body.linearDamping * dt));
+                    }
+                    body.mesh.position.addScaledVector(body.velocity, dt);
+                });
+                broadphaseDirty = true;
+
+                dynamicOrder.forEach((index, body) => {
+                    const bounds = updateMeshBounds(body.mesh).clone().expandByScalar(0.05);
+                    queryMeshes(bounds).forEach(other => {
+                        const otherBody = other.body;
+                        if (!otherBody || otherBody === body || !canCollide(body.mesh, other)) return;
+                        // Dynamic pairs are handled once, by the body that comes first.
+                        if (otherBody.type === 'dynamic' && dynamicOrder.get(otherBody) < index) return;
+                        if (otherBody.shape === 'mesh') {
+                            resolveTriangleMesh(body, otherBody, contacts);
+                            return;
+                        }
+                        const contact = colliderContact(getCollider(body), getCollider(otherBody));
+                        if (!contact) return;
+                        contacts.set(physicsContactKey(body, otherBody), [body, otherBody]);
+                        if (!body.sensor && !otherBody.sensor) resolvePhysicsContact(body, otherBody, contact);
+                    });
+                });
+            }
+
+            contacts.forEach((pair, key) => {
+                if (!physicsWorld.contacts.has(key)) dispatchPhysicsContact('onCollisionEnter', pair);
+            });
+            physicsWorld.contacts.forEach((pair, key) => {
+                if (!contacts.has(key)) dispatchPhysicsContact('onCollisionExit', pair);
+            });
+            physicsWorld.contacts = contacts;
+        }
+
+        // Raycasts test the meshes registry; hits on a model's child meshes report the model group.
+        const raycaster = new THREE.Raycaster();
+
+        function toVector3(value) {
+            return Array.isArray(value) ? new THREE.Vector3(...value) : value.clone();
+        }
+
+        function raycastMeshes({ maxDistance = Infinity, layers = null, ignore = null } = {}) {
+            raycaster.near = 0;
+            raycaster.far = maxDistance;
+            // Meshes moved since the last render still have stale world matrices.
+            scene.updateMatrixWorld();
+            const ignored = toObject3D(ignore);
+            const candidates = meshes.filter(mesh => mesh.visible && mesh !== ignored && inLayers(mesh.userData.collisionLayer, layers));
+            const hit = raycaster.intersectObjects(candidates, true)[0];
+            if (!hit) return null;
+
+            let mesh = hit.object;
+            while (mesh.parent && !candidates.includes(mesh)) mesh = mesh.parent;
+            const normal = hit.face
+                ? hit.face.normal.clone().applyMatrix3(new THREE.Matrix3().getNormalMatrix(hit.object.matrixWorld)).normalize()
+                : raycaster.ray.direction.clone().negate();
+            const group = instanceGroupOf.get(mesh);
+            const instance = group && hit.instanceId !== undefined ? group.instances[hit.instanceId] : null;
+            return { mesh, point: hit.point, normal, distance: hit.distance, instance };
+        }
+
+        function dispatchPhysicsContact(callbackName, [a, b]) {
+            if (a[callbackName]) a[callbackName](b.mesh);
+            if (b[callbackName]) b[callbackName](a.mesh);
+            if (physicsWorld[callbackName]) physicsWorld[callbackName](a.mesh, b.mesh);
         }
-        resizeCanvas();
-        window.addEventListener('resize', resizeCanvas);
 
-        const keysPressed = new Set();
-        document.addEventListener('keydown', (e) => keysPressed.add(e.code));
-        document.addEventListener('keyup', (e) => keysPressed.delete(e.code));
+        // Camera controllers. 'follow' is the original chase camera; 'orbit', 'firstPerson' and
+        // 'thirdPerson' are steered by pointer drag (or pointer lock) and the right gamepad stick;
+        // 'fixed' and 'rail' frame cinematic shots. Shake and FOV kicks layer on top of any mode.
+        const cameraModeDefaults = {
+            follow: { target: null, offset: [0, 5, 10], smoothing: 0.08 },
+            orbit: { target: [0, 0, 0], distance: 10, minDistance: 2, maxDistance: 50, minPitch: -1.4, maxPitch: 1.4, sensitivity: 0.005, zoomSpeed: 0.01 },
+            firstPerson: { target: null, height: 1.6, sensitivity: 0.002, pointerLock: true, rotateTarget: true, minPitch: -1.5, maxPitch: 1.5 },
+            thirdPerson: { target: null, distance: 6, height: 1.5, minDistance: 1, maxDistance: 20, minPitch: -0.5, maxPitch: 1.2, sensitivity: 0.004, zoomSpeed: 0.01, pointerLock: false, collision: true, collisionLayers: null, smoothing: 0.15 },
+            fixed: { position: null, lookAt: null },
+            rail: { points: [], lookAt: null, target: null, duration: 10, loop: false }
+        };
+        const STICK_LOOK_SPEED = 2.5;
+        const cameraRig = {
+            mode: null,
+            options: {},
+            yaw: 0,
+            pitch: 0,
+            distance: 10,
+            railCurve: null,
+            railProgress: 0,
+            shake: { intensity: 0, duration: 0, remaining: 0 },
+            shakeOffset: new THREE.Vector3(),
+            fovKick: { amount: 0, duration: 0, remaining: 0 },
+            baseFov: camera.fov
+        };
 
-        let sprites = [];
-        let particles = [];
-        let uiTasks = [];
-        let onUpdateCallback = (deltaTime) => {};
-        let lastTime = 0;
-        const state = new Map();
-        
-        const assetCache = {};
-        const loadingAssets = new Set();
+        // Accepts [x, y, z], a Vector3, a mesh or a model handle.
+        function resolvePoint(value) {
+            if (!value) return null;
+            if (Array.isArray(value)) return new THREE.Vector3(...value);
+            if (value.isVector3) return value.clone();
+            const object3D = toObject3D(value);
+            return object3D ? object3D.getWorldPosition(new THREE.Vector3()) : null;
+        }
 
-        function loadImage(url) {
-            if (assetCache[url]) {
-                return assetCache[url];
+        function orbitOffset(yaw, pitch, distance) {
+            return new THREE.Vector3(Math.sin(yaw) * Math.cos(pitch), Math.sin(pitch), Math.cos(yaw) * Math.cos(pitch)).multiplyScalar(distance);
+        }
+
+        function setCameraMode(mode, options = {}) {
+            if (mode === null || mode === 'manual') {
+                cameraRig.mode = null;
+                return;
             }
-            if (!loadingAssets.has(url)) {
-                loadingAssets.add(url);
-                const img = new Image();
-                img.onload = () => {
-                    assetCache[url] = img;
-                    loadingAssets.delete(url);
-                };
-                img.onerror = () => {
-                    console.error('Failed to load image: ' + url);
-                    loadingAssets.delete(url);
-                }
-                img.src = url;
+            if (!cameraModeDefaults[mode]) {
+                console.warn(\`Unknown camera mode "\${mode}".\`);
+                return;
+            }
+            const settings = { ...cameraModeDefaults[mode], ...options };
+            cameraRig.mode = mode;
+            cameraRig.options = settings;
+
+            // Start from the camera's current view so switching modes does not snap.
+            const pivot = resolvePoint(settings.target) || new THREE.Vector3();
+            if (mode === 'orbit' || mode === 'thirdPerson') {
+                if (mode === 'thirdPerson') pivot.y += settings.height;
+                const offset = camera.position.clone().sub(pivot);
+                cameraRig.distance = settings.distance;
+                cameraRig.yaw = Math.atan2(offset.x, offset.z);
+                cameraRig.pitch = Math.max(settings.minPitch, Math.min(settings.maxPitch, Math.asin(offset.y / (offset.length() || 1))));
+            } else if (mode === 'firstPerson') {
+                const euler = new THREE.Euler().setFromQuaternion(camera.quaternion, 'YXZ');
+                cameraRig.yaw = euler.y;
+                cameraRig.pitch = euler.x;
+            } else if (mode === 'rail') {
+                cameraRig.railCurve = settings.points.length > 1 ? new THREE.CatmullRomCurve3(settings.points.map(resolvePoint)) : null;
+                cameraRig.railProgress = 0;
             }
-            return null;
         }
 
-        const camera = {
-            x: 0,
-            y: 0,
-            target: null,
-            offset: { x: 0, y: 0 }
-        };
+        canvas.addEventListener('click', () => {
+            if (cameraRig.mode && cameraRig.options.pointerLock && !pointerState.locked) inputApi.lockPointer();
+        });
 
-        const audioContext = new (window.AudioContext || window.webkitAudioContext)();
-        function playSound(type) {
-            if (!audioContext || audioContext.state === 'suspended') {
-                audioContext.resume();
-            }
-            if (!audioContext) return;
-            const oscillator = audioContext.createOscillator();
-            const gainNode = audioContext.createGain();
-            gainNode.gain.setValueAtTime(0.1, audioContext.currentTime);
-            gainNode.gain.exponentialRampToValueAtTime(0.00001, audioContext.currentTime + 1);
-            
-            let freq = 440;
-            switch(type) {
-                case 'jump': freq = 660; break;
-                case 'collect': freq = 880; break;
-                case 'explosion': freq = 220; break;
-                case 'shoot': freq = 550; break;
-            }
+        // The camera's view direction flattened onto the ground plane.
+        function cameraForward() {
+            const forward = camera.getWorldDirection(new THREE.Vector3());
+            forward.y = 0;
+            return forward.lengthSq() > 0 ? forward.normalize() : new THREE.Vector3(0, 0, -1);
+        }
 
-            oscillator.type = type === 'explosion' ? 'sawtooth' : 'sine';
-            oscillator.frequency.setValueAtTime(freq, audioContext.currentTime);
-            oscillator.connect(gainNode);
-            gainNode.connect(audioContext.destination);
-            oscillator.start();
-            oscillator.stop(audioContext.currentTime + 0.2);
+        function applyLookInput(deltaTime, settings) {
+            const steering = pointerState.locked || pointerState.isDown;
+            const lookX = (steering ? pointerState.deltaX * settings.sensitivity : 0) + inputApi.getAxis('Gamepad:RightStickLeft', 'Gamepad:RightStickRight') * STICK_LOOK_SPEED * deltaTime;
+            const lookY = (steering ? pointerState.deltaY * settings.sensitivity : 0) + inputApi.getAxis('Gamepad:RightStickUp', 'Gamepad:RightStickDown') * STICK_LOOK_SPEED * deltaTime;
+            cameraRig.yaw -= lookX;
+            // Orbiting cameras pitch up when dragging down; first-person looks follow the pointer.
+            cameraRig.pitch += cameraRig.mode === 'firstPerson' ? -lookY : lookY;
+            cameraRig.pitch = Math.max(settings.minPitch, Math.min(settings.maxPitch, cameraRig.pitch));
+            if (settings.zoomSpeed) {
+                cameraRig.distance = Math.max(settings.minDistance, Math.min(settings.maxDistance, cameraRig.distance + pointerState.wheel * settings.zoomSpeed));
+            }
         }
 
-        window.Engine = {
-            getCanvas: () => canvas,
-            onUpdate: (callback) => { onUpdateCallback = callback; },
-            setData: (key, value) => state.set(key, value),
-            getData: (key) => state.get(key),
-            create: {
-                sprite: ({ x = 0, y = 0, width = 20, height = 20, asset = 'default', imageUrl = null, color = null, properties = {} }) => {
-                    if (imageUrl) {
-                        loadImage(imageUrl);
-                    }
-                    const colorMap = { player: 'skyblue', enemy: 'tomato', platform: 'lightgreen', coin: 'gold', default: 'white' };
-                    const sprite = { id: Math.random(), x, y, width, height, asset, imageUrl, color: color || colorMap[asset] || colorMap.default, ...properties };
-                    sprites.push(sprite);
-                    return sprite;
-                },
-                 particles: ({ x=0, y=0, count=10, color='orange', size=2, life=0.5 }) => {
-                    for(let i=0; i<count; i++) {
-                        particles.push({
-                            x, y,
-                            vx: (Math.random() - 0.5) * 150,
-                            vy: (Math.random() - 0.5) * 150,
-                            life: Math.random() * life,
-                            color, size
-                        });
+        function updateRail(deltaTime, settings) {
+            const curve = cameraRig.railCurve;
+            if (!curve) return;
+            const target = resolvePoint(settings.target);
+            if (target) {
+                // Track the target by moving to the closest sampled point along the rail.
+                let best = Infinity;
+                for (let i = 0; i <= 100; i++) {
+                    const distance = curve.getPointAt(i / 100).distanceToSquared(target);
+                    if (distance < best) {
+                        best = distance;
+                        cameraRig.railProgress = i / 100;
                     }
                 }
-            },
-            destroy: (spriteToDestroy) => {
-                sprites = sprites.filter(s => s !== spriteToDestroy);
-            },
-            input: {
-                isPressed: (key) => {
-                    const keyMap = { 'space': 'Space', 'arrowleft': 'ArrowLeft', 'arrowright': 'ArrowRight', 'arrowup': 'ArrowUp', 'arrowdown': 'ArrowDown' };
-                    const mappedKey = key.toLowerCase().replace(/ /g, '');
-                    return keysPressed.has(keyMap[mappedKey] || key);
+            } else {
+                const progress = cameraRig.railProgress + deltaTime / settings.duration;
+                cameraRig.railProgress = settings.loop ? progress % 1 : Math.min(1, progress);
+            }
+            camera.position.copy(curve.getPointAt(cameraRig.railProgress));
+            const lookTarget = resolvePoint(settings.lookAt) || target;
+            camera.lookAt(lookTarget || camera.position.clone().add(curve.getTangentAt(cameraRig.railProgress)));
+        }
+
+        function updateCameraRig(deltaTime) {
+            camera.position.sub(cameraRig.shakeOffset);
+            cameraRig.shakeOffset.set(0, 0, 0);
+            const settings = cameraRig.options;
+
+            switch (cameraRig.mode) {
+                case 'follow': {
+                    const target = resolvePoint(settings.target);
+                    if (!target) break;
+                    camera.position.lerp(target.clone().add(new THREE.Vector3(...settings.offset)), settings.smoothing);
+                    camera.lookAt(target);
+                    break;
                 }
-            },
-            physics: {
-                checkCollision: (spriteA, spriteB) => {
-                    if (!spriteA || !spriteB) return false;
-                    return spriteA.x < spriteB.x + spriteB.width &&
-                           spriteA.x + spriteA.width > spriteB.x &&
-                           spriteA.y < spriteB.y + spriteB.height &&
-                           spriteA.y + spriteA.height > spriteB.y;
-                },
-                getCollisions: (sprite) => {
-                    return sprites.filter(other => sprite !== other && window.Engine.physics.checkCollision(sprite, other));
+                case 'orbit': {
+                    applyLookInput(deltaTime, settings);
+                    const center = resolvePoint(settings.target) || new THREE.Vector3();
+                    camera.position.copy(center).add(orbitOffset(cameraRig.yaw, cameraRig.pitch, cameraRig.distance));
+                    camera.lookAt(center);
+                    break;
                 }
-            },
-            camera: {
-                follow: (sprite, offset = {x: 0, y: 0}) => {
-                    camera.target = sprite;
-                    camera.offset = offset;
+                case 'firstPerson': {
+                    applyLookInput(deltaTime, settings);
+                    const object3D = toObject3D(settings.target);
+                    if (object3D) {
+                        camera.position.copy(object3D.position);
+                        camera.position.y += settings.height;
+                        if (settings.rotateTarget) object3D.rotation.y = cameraRig.yaw;
+                    }
+                    camera.rotation.set(cameraRig.pitch, cameraRig.yaw, 0, 'YXZ');
+                    break;
                 }
-            },
-            ui: {
-                drawText: (config) => uiTasks.push(config)
-            },
-            audio: {
-                play: (soundName) => playSound(soundName)
+                case 'thirdPerson': {
+                    applyLookInput(deltaTime, settings);
+                    const pivot = resolvePoint(settings.target);
+                    if (!pivot) break;
+                    pivot.y += settings.height;
+                    const direction = orbitOffset(cameraRig.yaw, cameraRig.pitch, 1);
+                    let distance = cameraRig.distance;
+                    if (settings.collision) {
+                        // Pull the camera in front of any wall between it and the target.
+                        raycaster.set(pivot, direction);
+                        const hit = raycastMeshes({ maxDistance: distance, layers: settings.collisionLayers, ignore: settings.target });
+                        if (hit) distance = Math.max(settings.minDistance, hit.distance - 0.2);
+                    }
+                    const desired = pivot.clone().addScaledVector(direction, distance);
+                    const current = camera.position.distanceTo(pivot);
+                    if (current > distance) {
+                        camera.position.copy(desired);
+                    } else {
+                        camera.position.lerp(desired, settings.smoothing);
+                    }
+                    camera.lookAt(pivot);
+                    break;
+                }
+                case 'fixed': {
+                    const position = resolvePoint(settings.position);
+                    if (position) camera.position.copy(position);
+                    const lookTarget = resolvePoint(settings.lookAt);
+                    if (lookTarget) camera.lookAt(lookTarget);
+                    break;
+                }
+                case 'rail':
+                    updateRail(deltaTime, settings);
+                    break;
             }
-        };
-
-        function gameLoop(timestamp) {
-            const deltaTime = (timestamp - lastTime) / 1000 || 0;
-            lastTime = timestamp;
 
-            if (camera.target) {
-                camera.x = camera.target.x - (canvas.width / 2) + camera.offset.x;
-                camera.y = camera.target.y - (canvas.height / 2) + camera.offset.y;
+            const shake = cameraRig.shake;
+            if (shake.remaining > 0) {
+                shake.remaining = Math.max(0, shake.remaining - deltaTime);
+                const strength = shake.intensity * (shake.remaining / shake.duration);
+                cameraRig.shakeOffset.set((nextRandom() * 2 - 1) * strength, (nextRandom() * 2 - 1) * strength, (nextRandom() * 2 - 1) * strength);
+                camera.position.add(cameraRig.shakeOffset);
             }
 
-            particles = particles.filter(p => p.life > 0);
-            particles.forEach(p => {
-                p.x += p.vx * deltaTime;
-                p.y += p.vy * deltaTime;
-                p.life -= deltaTime;
-            });
-            
-            ctx.clearRect(0, 0, canvas.width, canvas.height);
-            ctx.save();
-            ctx.translate(-camera.x, -camera.y);
-            
-            onUpdateCallback(deltaTime);
-            
-            sprites.forEach(sprite => {
-                if (sprite.imageUrl && assetCache[sprite.imageUrl]) {
-                    const img = assetCache[sprite.imageUrl];
-                    ctx.drawImage(img, sprite.x, sprite.y, sprite.width, sprite.height);
-                } else {
-                    ctx.fillStyle = sprite.color;
-                    ctx.fillRect(sprite.x, sprite.y, sprite.width, sprite.height);
-                }
-            });
-
-            particles.forEach(p => {
-                ctx.fillStyle = p.color;
-                ctx.globalAlpha = Math.max(0, p.life / 0.5);
-                ctx.fillRect(p.x, p.y, p.size, p.size);
-            });
-            ctx.globalAlpha = 1.0;
+            const kick = cameraRig.fovKick;
+            if (kick.remaining > 0) {
+                kick.remaining = Math.max(0, kick.remaining - deltaTime);
+                camera.fov = cameraRig.baseFov + kick.amount * (kick.remaining / kick.duration);
+                camera.updateProjectionMatrix();
+            }
+        }
 
-            ctx.restore();
+        // Positional audio. Sounds attached to a mesh (or a fixed point) play through an HRTF
+        // panner that follows it every frame; the listener rides on the camera.
+        let audioEmitters = [];
 
-            uiTasks.forEach(task => {
-                ctx.fillStyle = task.color || 'white';
-                ctx.font = \`\${task.size || 16}px \${task.font || 'sans-serif'}\`;
-                ctx.textAlign = task.align || 'left';
-                ctx.fillText(task.text, task.x, task.y);
-            });
-            uiTasks = [];
+        function setAudioPosition(node, position) {
+            if (node.positionX) {
+                node.positionX.value = position.x;
+                node.positionY.value = position.y;
+                node.positionZ.value = position.z;
+            } else {
+                node.setPosition(position.x, position.y, position.z);
+            }
+        }
 
-            requestAnimationFrame(gameLoop);
+        function attachSound(target, name, { refDistance = 1, rolloff = 1, maxDistance = 10000, loop = true, volume = 1, pitch = 1, bus = 'sfx' } = {}) {
+            if (!audioContext) return null;
+            const panner = audioContext.createPanner();
+            panner.panningModel = 'HRTF';
+            panner.distanceModel = 'inverse';
+            panner.refDistance = refDistance;
+            panner.rolloffFactor = rolloff;
+            panner.maxDistance = maxDistance;
+            panner.connect(audioBuses[bus] || audioBuses.sfx);
+            const emitter = { target, object: toObject3D(target), panner, handle: null };
+            updateAudioEmitter(emitter);
+            emitter.handle = playSound(name, { volume, pitch, loop, output: panner });
+            audioEmitters.push(emitter);
+            return emitter.handle;
         }
 
-        requestAnimationFrame(gameLoop);
-    `;
-    }
+        function updateAudioEmitter(emitter) {
+            const position = resolvePoint(emitter.target);
+            if (position) setAudioPosition(emitter.panner, position);
+        }
 
-    if (workspaceType === '3D') {
-        return `
-        ${consoleOverride}
-        import * as THREE from 'three';
+        function stopAttachedSounds(object3D) {
+            audioEmitters.forEach(emitter => {
+                if (emitter.object === object3D) emitter.handle.stop(0.05);
+            });
+        }
 
-        const canvas = document.getElementById('game-canvas');
-        if (!canvas) throw new Error('Could not find canvas');
+        function updatePositionalAudio() {
+            if (!audioContext) return;
+            const listener = audioContext.listener;
+            const position = camera.getWorldPosition(new THREE.Vector3());
+            const forward = camera.getWorldDirection(new THREE.Vector3());
+            const up = new THREE.Vector3(0, 1, 0).applyQuaternion(camera.quaternion);
+            if (listener.forwardX) {
+                setAudioPosition(listener, position);
+                listener.forwardX.value = forward.x;
+                listener.forwardY.value = forward.y;
+                listener.forwardZ.value = forward.z;
+                listener.upX.value = up.x;
+                listener.upY.value = up.y;
+                listener.upZ.value = up.z;
+            } else {
+                listener.setPosition(position.x, position.y, position.z);
+                listener.setOrientation(forward.x, forward.y, forward.z, up.x, up.y, up.z);
+            }
 
-        const uiCanvas = document.createElement('canvas');
-        const uiCtx = uiCanvas.getContext('2d');
-        document.body.appendChild(uiCanvas);
-        uiCanvas.style.position = 'absolute';
-        uiCanvas.style.left = '0';
-        uiCanvas.style.top = '0';
-        uiCanvas.style.pointerEvents = 'none';
+            audioEmitters = audioEmitters.filter(emitter => {
+                if (emitter.handle && emitter.handle.stopped) {
+                    // Give a fading sound time to finish before cutting its panner off.
+                    setTimeout(() => emitter.panner.disconnect(), 200);
+                    return false;
+                }
+                updateAudioEmitter(emitter);
+                return true;
+            });
+        }
 
-        const scene = new THREE.Scene();
-        scene.background = new THREE.Color(0x111111);
-        const camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
-        const renderer = new THREE.WebGLRenderer({ canvas: canvas, antialias: true });
-        renderer.setSize(window.innerWidth, window.innerHeight);
-        
-        const clock = new THREE.Clock();
-        const state = new Map();
-        let cameraTarget = null;
-        let cameraOffset = new THREE.Vector3(0, 5, 10);
-        let uiTasks = [];
+        // Debug geometry is rebuilt every frame into one line batch drawn over the scene.
+        const debugLines = new THREE.LineSegments(new THREE.BufferGeometry(), new THREE.LineBasicMaterial({ vertexColors: true, depthTest: false, transparent: true }));
+        debugLines.frustumCulled = false;
+        debugLines.renderOrder = 999;
+        const debugBox = new THREE.Box3();
+        const debugColor = new THREE.Color();
+        const debugProjected = new THREE.Vector3();
 
-        function resizeAll() {
-             camera.aspect = window.innerWidth / window.innerHeight;
-            camera.updateProjectionMatrix();
-            renderer.setSize(window.innerWidth, window.innerHeight);
-            uiCanvas.width = window.innerWidth;
-            uiCanvas.height = window.innerHeight;
-        }
-        window.addEventListener('resize', resizeAll);
-        resizeAll();
+        function drawDebugOverlay() {
+            const positions = [];
+            const colors = [];
+            const segment = (a, b, color) => {
+                debugColor.set(color);
+                positions.push(a.x, a.y, a.z, b.x, b.y, b.z);
+                colors.push(debugColor.r, debugColor.g, debugColor.b, debugColor.r, debugColor.g, debugColor.b);
+            };
+            const box = ({ min, max }, color) => {
+                if (min.x > max.x) return;
+                const corners = [0, 1, 2, 3, 4, 5, 6, 7].map(i => new THREE.Vector3(i & 1 ? max.x : min.x, i & 2 ? max.y : min.y, i & 4 ? max.z : min.z));
+                [[0, 1], [2, 3], [4, 5], [6, 7], [0, 2], [1, 3], [4, 6], [5, 7], [0, 4], [1, 5], [2, 6], [3, 7]].forEach(([a, b]) => segment(corners[a], corners[b], color));
+            };
 
-        const keysPressed = new Set();
-        document.addEventListener('keydown', (e) => keysPressed.add(e.code));
-        document.addEventListener('keyup', (e) => keysPressed.delete(e.code));
+            if (debugState.enabled) {
+                meshes.forEach(mesh => {
+                    if (!mesh.visible) return;
+                    box(debugBox.setFromObject(mesh), DEBUG_COLORS.bounds);
+                    if (mesh.body && mesh.body.velocity.lengthSq() > 0) {
+                        const center = debugBox.getCenter(new THREE.Vector3());
+                        segment(center, center.clone().addScaledVector(mesh.body.velocity, DEBUG_VELOCITY_SECONDS), DEBUG_COLORS.velocity);
+                    }
+                });
 
-        let meshes = [];
-        let onUpdateCallback = (deltaTime) => {};
+                const target = resolvePoint(cameraRig.options.target);
+                if (target) {
+                    [[0.5, 0, 0], [0, 0.5, 0], [0, 0, 0.5]].forEach(([x, y, z]) => segment(target.clone().add(new THREE.Vector3(-x, -y, -z)), target.clone().add(new THREE.Vector3(x, y, z)), DEBUG_COLORS.camera));
+                    if (Array.isArray(cameraRig.options.offset)) segment(target, target.clone().add(new THREE.Vector3(...cameraRig.options.offset)), DEBUG_COLORS.camera);
+                }
 
-        const audioContext = new (window.AudioContext || window.webkitAudioContext)();
-        function playSound(type) {
-            if (!audioContext || audioContext.state === 'suspended') {
-                audioContext.resume();
+                debugState.lines.forEach(({ from, to, color }) => {
+                    const a = resolvePoint(from);
+                    const b = resolvePoint(to);
+                    if (a && b) segment(a, b, color);
+                });
+                debugState.rects.forEach(({ target, color }) => {
+                    if (target.isBox3) box(target, color);
+                    else if (toObject3D(target)) box(debugBox.setFromObject(toObject3D(target)), color);
+                });
             }
-            if (!audioContext) return;
-            const oscillator = audioContext.createOscillator();
-            const gainNode = audioContext.createGain();
-            gainNode.gain.setValueAtTime(0.1, audioContext.currentTime);
-            gainNode.gain.exponentialRampToValueAtTime(0.00001, audioContext.currentTime + 1);
-            
-            let freq = 440;
-            switch(type) {
-                case 'jump': freq = 660; break;
-                case 'collect': freq = 880; break;
-                case 'explosion': freq = 220; break;
-                case 'shoot': freq = 550; break;
+
+            debugLines.geometry.dispose();
+            debugLines.geometry = new THREE.BufferGeometry();
+            if (positions.length === 0) {
+                if (debugLines.parent) scene.remove(debugLines);
+                return;
             }
+            debugLines.geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+            debugLines.geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+            if (!debugLines.parent) scene.add(debugLines);
+        }
 
-            oscillator.type = type === 'explosion' ? 'sawtooth' : 'sine';
-            oscillator.frequency.setValueAtTime(freq, audioContext.currentTime);
-            oscillator.connect(gainNode);
-            gainNode.connect(audioContext.destination);
-            oscillator.start();
-            oscillator.stop(audioContext.currentTime + 0.2);
+        // Labels go on the UI canvas, projected from their world positions.
+        function drawDebugText(context) {
+            if (!debugState.enabled) return;
+            context.save();
+            context.font = '12px monospace';
+            context.textAlign = 'center';
+            debugState.texts.forEach(({ text, position, color }) => {
+                const point = resolvePoint(position);
+                if (!point) return;
+                debugProjected.copy(point).project(camera);
+                if (debugProjected.z > 1) return;
+                context.fillStyle = color;
+                context.fillText(text, (debugProjected.x + 1) / 2 * uiCanvas.width, (1 - debugProjected.y) / 2 * uiCanvas.height);
+            });
+            context.restore();
         }
 
         window.Engine = {
@@ -344,49 +3875,53 @@ export const getEngineScript = (workspaceType: WorkspaceType): string => {
             getScene: () => scene,
             getCamera: () => camera,
             onUpdate: (callback) => { onUpdateCallback = callback; },
+            onFixedUpdate: (callback) => { onFixedUpdateCallback = callback; },
+            time: timeApi,
+            random: engineRandom,
+            replay: replayApi,
+            save: saveApi,
+            profiler: profilerApi,
+            debug: debugApi,
             setData: (key, value) => state.set(key, value),
             getData: (key) => state.get(key),
             create: {
-                mesh: ({ geometry = 'box', material = 'normal', color = 0xcccccc, textureUrl = null, position = [0,0,0], scale = [1,1,1], properties = {} }) => {
-                    let geom;
-                    switch(geometry) {
-                        case 'sphere': geom = new THREE.SphereGeometry(0.5, 32, 16); break;
-                        case 'capsule': geom = new THREE.CapsuleGeometry(0.5, 0.5, 16, 8); break;
-                        case 'plane': geom = new THREE.PlaneGeometry(1, 1); break;
-                        case 'box': default: geom = new THREE.BoxGeometry(1, 1, 1); break;
-                    }
-                    
-                    let mat;
-                    const matParams = { color };
-                    if (textureUrl) {
-                        const textureLoader = new THREE.TextureLoader();
-                        matParams.map = textureLoader.load(textureUrl);
-                    }
-
-                    switch(material) {
-                        case 'phong': mat = new THREE.MeshPhongMaterial(matParams); break;
-                        case 'lambert': mat = new THREE.MeshLambertMaterial(matParams); break;
-                        case 'standard': mat = new THREE.MeshStandardMaterial(matParams); break;
-                        case 'normal': default: mat = new THREE.MeshNormalMaterial(); break;
-                    }
-
-                    const mesh = new THREE.Mesh(geom, mat);
+                mesh: ({ geometry = 'box', material = 'normal', color = 0xcccccc, textureUrl = null, position = [0,0,0], scale = [1,1,1], collisionLayer = 'default', collisionMask = null, physics = null, castShadow = false, receiveShadow = false, uniqueMaterial = false, properties = {} }) => {
+                    const mesh = new THREE.Mesh(acquireGeometry(geometry), acquireMaterial(material, color, textureUrl, uniqueMaterial));
                     mesh.position.set(...position);
                     mesh.scale.set(...scale);
+                    mesh.castShadow = castShadow;
+                    mesh.receiveShadow = receiveShadow;
+                    mesh.userData.collisionLayer = collisionLayer;
+                    mesh.userData.collisionMask = normalizeMask(collisionMask);
                     Object.assign(mesh.userData, properties);
                     scene.add(mesh);
                     meshes.push(mesh);
+                    trackSceneEntity(mesh);
+                    broadphaseDirty = true;
+                    if (physics) createPhysicsBody(mesh, physics === true ? {} : physics);
                     return mesh;
                 },
-                light: ({ type = 'ambient', color = 0xffffff, intensity = 1, position = [0, 10, 0] }) => {
+                instances: (options) => createInstances(options),
+                light: ({ type = 'ambient', color = 0xffffff, groundColor = 0x444444, intensity = 1, position = [0, 10, 0], target = [0, 0, 0], distance = 0, angle = Math.PI / 6, penumbra = 0.2, castShadow = false, shadowSize = 20 }) => {
                     let light;
                     switch(type) {
                         case 'directional': 
                             light = new THREE.DirectionalLight(color, intensity);
                             light.position.set(...position);
+                            // The shadow camera covers a shadowSize-wide square around the target.
+                            Object.assign(light.shadow.camera, { left: -shadowSize / 2, right: shadowSize / 2, top: shadowSize / 2, bottom: -shadowSize / 2 });
+                            light.shadow.camera.updateProjectionMatrix();
                             break;
                         case 'point':
-                            light = new THREE.PointLight(color, intensity);
+                            light = new THREE.PointLight(color, intensity, distance);
+                            light.position.set(...position);
+                            break;
+                        case 'spot':
+                            light = new THREE.SpotLight(color, intensity, distance, angle, penumbra);
+                            light.position.set(...position);
+                            break;
+                        case 'hemisphere':
+                            light = new THREE.HemisphereLight(color, groundColor, intensity);
                             light.position.set(...position);
                             break;
                         case 'ambient':
@@ -394,70 +3929,161 @@ export const getEngineScript = (workspaceType: WorkspaceType): string => {
                             light = new THREE.AmbientLight(color, intensity);
                             break;
                     }
+                    if (light.target) {
+                        light.target.position.set(...target);
+                        scene.add(light.target);
+                        ownedLightTargets.set(light, light.target);
+                    }
+                    if (light.shadow) {
+                        light.castShadow = castShadow;
+                        light.shadow.mapSize.set(1024, 1024);
+                    }
                     scene.add(light);
+                    trackSceneEntity(light);
                     return light;
                 }
             },
-            destroy: (object3D) => {
+            load: {
+                model: (source, options) => loadModel(source, options)
+            },
+            destroy: (target) => {
+                // Single instances cannot be removed from their group, only hidden.
+                if (target && target.isInstance) {
+                    target.visible = false;
+                    return;
+                }
+                const object3D = toObject3D(target);
                 if (!object3D) return;
-                if (object3D.geometry) object3D.geometry.dispose();
-                if (object3D.material) {
-                     if (Array.isArray(object3D.material)) {
-                        object3D.material.forEach(m => {
-                            if (m.map) m.map.dispose();
-                            m.dispose()
-                        });
-                     } else {
-                        if (object3D.material.map) object3D.material.map.dispose();
-                        object3D.material.dispose();
-                     }
+                disposeObject3D(object3D);
+                if (animationMixers.has(object3D)) {
+                    animationMixers.get(object3D).stopAllAction();
+                    animationMixers.delete(object3D);
                 }
                 scene.remove(object3D);
+                if (ownedLightTargets.has(object3D)) {
+                    scene.remove(ownedLightTargets.get(object3D));
+                }
+                removePhysicsBody(object3D);
+                stopAttachedSounds(object3D);
                 meshes = meshes.filter(m => m !== object3D);
+                instanceGroups = instanceGroups.filter(group => group.object !== object3D);
+                untrackSceneEntity(object3D);
+                removeEntityComponents(object3D);
+                cancelTweensOf(object3D);
+                broadphaseDirty = true;
             },
-            input: {
-                isPressed: (key) => {
-                    const keyMap = { 'space': 'Space', 'arrowleft': 'ArrowLeft', 'arrowright': 'ArrowRight', 'arrowup': 'ArrowUp', 'arrowdown': 'ArrowDown', 'keyw': 'KeyW', 'keya': 'KeyA', 'keys': 'KeyS', 'keyd': 'KeyD'};
-                    const mappedKey = key.toLowerCase().replace(/ /g, '');
-                    return keysPressed.has(keyMap[mappedKey] || key);
+            input: Object.assign(inputApi, {
+                pick: (options) => {
+                    raycaster.setFromCamera(new THREE.Vector2(pointerState.ndcX, pointerState.ndcY), camera);
+                    return raycastMeshes(options);
                 }
-            },
+            }),
             camera: {
                 follow: (meshToFollow, offset = [0, 5, 10]) => {
-                    cameraTarget = meshToFollow;
-                    cameraOffset.set(...offset);
+                    setCameraMode('follow', { target: meshToFollow, offset });
                 },
                 lookAt: (target) => { // target can be a Vector3 or an array [x, y, z]
-                    cameraTarget = null;
+                    cameraRig.mode = null;
                     if (Array.isArray(target)) {
                        camera.lookAt(new THREE.Vector3(...target));
                     } else {
                        camera.lookAt(target);
                     }
+                },
+                setMode: (mode, options) => setCameraMode(mode, options),
+                getMode: () => cameraRig.mode,
+                shake: (intensity = 0.3, duration = 0.3) => {
+                    Object.assign(cameraRig.shake, { intensity, duration, remaining: duration });
+                },
+                fovKick: (amount = 10, duration = 0.3) => {
+                    if (cameraRig.fovKick.remaining <= 0) cameraRig.baseFov = camera.fov;
+                    Object.assign(cameraRig.fovKick, { amount, duration, remaining: duration });
+                },
+                getForward: () => cameraForward(),
+                getRight: () => {
+                    const forward = cameraForward();
+                    return new THREE.Vector3(-forward.z, 0, forward.x);
                 }
             },
             physics: {
                 checkCollision: (meshA, meshB) => {
                     if (!meshA || !meshB) return false;
-                    const boxA = new THREE.Box3().setFromObject(meshA);
-                    const boxB = new THREE.Box3().setFromObject(meshB);
-                    return boxA.intersectsBox(boxB);
-                },
-                getCollisions: (mesh) => {
-                    const boxA = new THREE.Box3().setFromObject(mesh);
-                    return meshes.filter(other => {
-                        if (mesh === other) return false;
-                        const boxB = new THREE.Box3().setFromObject(other);
-                        return boxA.intersectsBox(boxB);
-                    });
-                }
+                    return scratchBoxA.setFromObject(toObject3D(meshA)).intersectsBox(scratchBoxB.setFromObject(toObject3D(meshB)));
+                },
+                getCollisions: (target) => {
+                    const mesh = toObject3D(target);
+                    if (!mesh) return [];
+                    const box = scratchBoxA.setFromObject(mesh).clone();
+                    return queryMeshes(box).filter(other => mesh !== other && canCollide(mesh, other));
+                },
+                queryBox: (min, max, { layers = null } = {}) => {
+                    const box = new THREE.Box3(new THREE.Vector3(...min), new THREE.Vector3(...max));
+                    return queryMeshes(box).filter(mesh => inLayers(mesh.userData.collisionLayer, layers));
+                },
+                queryRadius: (center, radius, { layers = null } = {}) => {
+                    const sphere = new THREE.Sphere(Array.isArray(center) ? new THREE.Vector3(...center) : center.clone(), radius);
+                    const box = new THREE.Box3();
+                    sphere.getBoundingBox(box);
+                    return queryMeshes(box).filter(mesh => meshBounds.get(mesh).intersectsSphere(sphere) && inLayers(mesh.userData.collisionLayer, layers));
+                },
+                queryLayer: (layer) => meshes.filter(mesh => mesh.userData.collisionLayer === layer),
+                raycast: (origin, direction, options) => {
+                    raycaster.set(toVector3(origin), toVector3(direction).normalize());
+                    return raycastMeshes(options);
+                },
+                addBody: (target, options) => {
+                    const object3D = toObject3D(target);
+                    return object3D ? createPhysicsBody(object3D, options) : null;
+                },
+                removeBody: (target) => {
+                    const object3D = toObject3D(target);
+                    if (object3D) removePhysicsBody(object3D);
+                },
+                setGravity: (x, y, z) => physicsWorld.gravity.set(x, y, z),
+                getGravity: () => physicsWorld.gravity.toArray(),
+                setVelocity: (target, velocity) => {
+                    const object3D = toObject3D(target);
+                    if (object3D && object3D.body) object3D.body.velocity.set(...velocity);
+                },
+                applyImpulse: (target, impulse) => {
+                    const object3D = toObject3D(target);
+                    if (!object3D || !object3D.body || object3D.body.type !== 'dynamic' || object3D.body.mass <= 0) return;
+                    object3D.body.velocity.addScaledVector(new THREE.Vector3(...impulse), 1 / object3D.body.mass);
+                },
+                onCollisionEnter: (callback) => { physicsWorld.onCollisionEnter = callback; },
+                onCollisionExit: (callback) => { physicsWorld.onCollisionExit = callback; }
             },
             ui: {
                 drawText: (config) => uiTasks.push(config)
             },
-            audio: {
-                play: (soundName) => playSound(soundName)
-            }
+            audio: Object.assign(audioApi, {
+                // target: a mesh, model handle, Vector3 or [x, y, z].
+                attach: (target, name, options) => attachSound(target, name, options)
+            }),
+            postfx: {
+                add: (name, options) => addPostfx(name, options),
+                remove: (nameOrEffect) => removePostfx(nameOrEffect),
+                // Custom passes: { fragmentShader, uniforms: { name: defaultValue } }.
+                register: (name, { fragmentShader, uniforms = {} }) => {
+                    postfxShaders[name] = { fragmentShader, uniforms };
+                },
+                // With no name these switch the whole chain, e.g. for a "low quality" setting.
+                enable: (name) => setPostfxEnabled(name, true),
+                disable: (name) => setPostfxEnabled(name, false),
+                list: () => postfxEffects.map(effect => ({ name: effect.name, enabled: effect.enabled }))
+            },
+            environment: {
+                set: (settings) => setEnvironment(settings),
+                get: () => ({ ...environmentSettings })
+            },
+            scenes: scenesApi,
+            world: worldApi,
+            // Tweening a mesh's material changes only that mesh, even if it was sharing one.
+            tween: (target, options) => {
+                if (options && options.to && options.to.material) ownMaterial(target);
+                return createTween(target, options);
+            },
+            easing: easings
         };
 
         camera.position.z = 10;
@@ -469,19 +4095,116 @@ export const getEngineScript = (workspaceType: WorkspaceType): string => {
         dirLight.position.set(5, 10, 7);
         scene.add(dirLight);
 
+        // Scene environment. The grid and default lights stay until a game opts out, so older
+        // games keep looking the same.
+        const environmentSettings = { background: 0x111111, skybox: null, fog: null, grid: true, shadows: false, defaultLights: true };
+        const shadowMapTypes = { basic: THREE.BasicShadowMap, hard: THREE.PCFShadowMap, soft: THREE.PCFSoftShadowMap };
+
+        // A vertical gradient painted once onto a small canvas, used as an equirectangular sky.
+        function createGradientSky({ top = 0x87ceeb, bottom = 0xffffff }) {
+            const skyCanvas = document.createElement('canvas');
+            skyCanvas.width = 2;
+            skyCanvas.height = 256;
+            const skyCtx = skyCanvas.getContext('2d');
+            const gradient = skyCtx.createLinearGradient(0, 0, 0, skyCanvas.height);
+            gradient.addColorStop(0, '#' + new THREE.Color(top).getHexString());
+            gradient.addColorStop(1, '#' + new THREE.Color(bottom).getHexString());
+            skyCtx.fillStyle = gradient;
+            skyCtx.fillRect(0, 0, skyCanvas.width, skyCanvas.height);
+            const texture = new THREE.CanvasTexture(skyCanvas);
+            texture.mapping = THREE.EquirectangularReflectionMapping;
+            texture.colorSpace = THREE.SRGBColorSpace;
+            return texture;
+        }
+
+        function loadSkybox(skybox) {
+            if (Array.isArray(skybox)) {
+                return new THREE.CubeTextureLoader().load(skybox.map(resolveAssetUrl));
+            }
+            if (typeof skybox === 'string') {
+                const texture = new THREE.TextureLoader().load(resolveAssetUrl(skybox));
+                texture.mapping = THREE.EquirectangularReflectionMapping;
+                texture.colorSpace = THREE.SRGBColorSpace;
+                return texture;
+            }
+            return createGradientSky(skybox);
+        }
+
+        function setEnvironment(settings = {}) {
+            Object.assign(environmentSettings, settings);
+
+            if ('skybox' in settings || 'background' in settings) {
+                if (scene.background && scene.background.isTexture) scene.background.dispose();
+                scene.background = environmentSettings.skybox
+                    ? loadSkybox(environmentSettings.skybox)
+                    : new THREE.Color(environmentSettings.background);
+            }
+            if ('fog' in settings) {
+                const fog = environmentSettings.fog;
+                if (!fog) {
+                    scene.fog = null;
+                } else if (fog.density !== undefined) {
+                    scene.fog = new THREE.FogExp2(fog.color ?? 0xcccccc, fog.density);
+                } else {
+                    scene.fog = new THREE.Fog(fog.color ?? 0xcccccc, fog.near ?? 10, fog.far ?? 100);
+                }
+            }
+            if ('grid' in settings) {
+                gridHelper.visible = !!environmentSettings.grid;
+            }
+            if ('defaultLights' in settings) {
+                [ambient, dirLight].forEach(light => {
+                    if (environmentSettings.defaultLights) scene.add(light);
+                    else scene.remove(light);
+                });
+            }
+            if ('shadows' in settings) {
+                const shadows = environmentSettings.shadows;
+                renderer.shadowMap.enabled = !!shadows;
+                renderer.shadowMap.type = shadowMapTypes[shadows] || THREE.PCFShadowMap;
+                dirLight.castShadow = !!shadows;
+                Object.assign(dirLight.shadow.camera, { left: -15, right: 15, top: 15, bottom: -15 });
+                dirLight.shadow.camera.updateProjectionMatrix();
+                // Materials compile shadow support into their shaders, so they must rebuild.
+                scene.traverse(object => {
+                    if (!object.material) return;
+                    (Array.isArray(object.material) ? object.material : [object.material]).forEach(material => { material.needsUpdate = true; });
+                });
+            }
+        }
+
         function animate() {
-            const deltaTime = clock.getDelta();
+            profileBeginFrame();
+            const { deltaTime, fixedSteps } = advanceTime(clock.getDelta());
+            broadphaseDirty = true;
+            profileMark('input');
+            pollInput();
+
+            for (let i = 0; i < fixedSteps; i++) {
+                profileMark('update');
+                onFixedUpdateCallback(timeState.fixedStep);
+                profileMark('physics');
+                stepPhysicsWorld(timeState.fixedStep);
+            }
             
+            profileMark('update');
             onUpdateCallback(deltaTime);
+            updateScenes(deltaTime);
+            runSystems(deltaTime);
+            updateTweens(deltaTime);
+            updateShaderMaterials(deltaTime);
+            updateInstanceGroups();
+            animationMixers.forEach(mixer => mixer.update(deltaTime));
             
-            if (cameraTarget) {
-                const targetPosition = cameraTarget.position.clone().add(cameraOffset);
-                camera.position.lerp(targetPosition, 0.08);
-                camera.lookAt(cameraTarget.position);
-            }
+            updateCameraRig(deltaTime);
+            updatePositionalAudio();
 
-            renderer.render(scene, camera);
+            profileMark('render');
+            drawDebugOverlay();
+            renderer.info.reset();
+            renderFrame(deltaTime);
 
+            profileMark('ui');
             if (uiCtx) {
                 uiCtx.clearRect(0, 0, uiCanvas.width, uiCanvas.height);
                 uiTasks.forEach(task => {
@@ -491,7 +4214,22 @@ export const getEngineScript = (workspaceType: WorkspaceType): string => {
                     uiCtx.fillText(task.text, task.x, task.y);
                 });
                 uiTasks = [];
+                drawVirtualJoystick(uiCtx);
+
+                const transitionCover = getSceneTransitionCover();
+                if (transitionCover) {
+                    uiCtx.globalAlpha = transitionCover.alpha;
+                    uiCtx.fillStyle = transitionCover.color;
+                    uiCtx.fillRect(0, 0, uiCanvas.width, uiCanvas.height);
+                    uiCtx.globalAlpha = 1.0;
+                }
+                drawDebugText(uiCtx);
+                drawProfilerOverlay(uiCtx);
             }
+            clearDebugShapes();
+
+            const { render, memory } = renderer.info;
+            profileEndFrame({ meshes: meshes.length, drawCalls: render.calls, triangles: render.triangles, geometries: memory.geometries, textures: memory.textures });
         }
         renderer.setAnimationLoop(animate);
         `;
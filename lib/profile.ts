@@ -0,0 +1,28 @@
+import { ProfileSample } from '../types';
+
+// How many frames the IDE keeps for the frame-time graph and for prompts.
+export const PROFILE_HISTORY_FRAMES = 240;
+export const LONG_FRAME_MS = 33;
+
+export const appendProfileFrames = (history: [number, number][], sample: ProfileSample): [number, number][] =>
+    [...history, ...sample.frames.filter(([interval]) => interval > 0)].slice(-PROFILE_HISTORY_FRAMES);
+
+// A compact text report of the recent frames, suitable for pasting into an AI prompt.
+export const describeProfile = (latest: ProfileSample, history: [number, number][]): string => {
+    const intervals = history.map(([interval]) => interval);
+    const average = intervals.length > 0 ? intervals.reduce((sum, value) => sum + value, 0) / intervals.length : latest.frameMs;
+    const worst = intervals.length > 0 ? Math.max(...intervals) : latest.worstFrameMs;
+    const longFrames = intervals.filter(interval => interval > LONG_FRAME_MS).length;
+    const phases = Object.entries(latest.phases).map(([phase, ms]) => `${phase} ${ms.toFixed(2)}`).join(', ');
+    const counts = Object.entries(latest.counts).map(([name, value]) => `${name} ${value}`).join(', ');
+    const lines = [
+        `Performance profile of the running game (last ${intervals.length} frames):`,
+        `- ${(average > 0 ? 1000 / average : 0).toFixed(0)} fps on average, ${average.toFixed(1)} ms per frame, worst frame ${worst.toFixed(1)} ms, ${longFrames} frames over ${LONG_FRAME_MS} ms.`,
+        `- Engine and game code take ${latest.workMs.toFixed(2)} ms per frame (ms by phase: ${phases}).`,
+        `- Counts: ${counts || 'none reported'}.`
+    ];
+    if (latest.heapMB !== null) {
+        lines.push(`- JS heap ${latest.heapMB.toFixed(1)} MB, ${latest.gcEvents} likely garbage collections in the latest sample.`);
+    }
+    return lines.join('\n');
+};
@@ -0,0 +1,67 @@
+import { EngineReplay, FileEntry } from '../types';
+
+export const REPLAY_DIRECTORY = 'replays/';
+// Replays are stored with the rest of the workspace in localStorage, which only holds a few MB,
+// so they are budgeted in characters of JSON: each auto-fix overwrites the same file, a replay over
+// MAX_REPLAY_SIZE is not stored at all, and saved replays beyond the count or total budget drop the oldest.
+// The engine stops recording well before MAX_REPLAY_SIZE (MAX_RECORDING_SIZE in lib/engine.ts).
+export const AUTOFIX_REPLAY_PATH = `${REPLAY_DIRECTORY}last-autofix.json`;
+export const MAX_SAVED_REPLAYS = 5;
+export const MAX_REPLAY_SIZE = 384 * 1024;
+export const MAX_STORED_REPLAYS_SIZE = 1024 * 1024;
+
+export const isReplayPath = (path: string): boolean => path.startsWith(REPLAY_DIRECTORY) && path.endsWith('.json');
+
+export const createReplayPath = (date: Date = new Date()): string => {
+    const stamp = date.toISOString().replace(/\.\d+Z$/, '').replace(/[-:]/g, '').replace('T', '-');
+    return `${REPLAY_DIRECTORY}replay-${stamp}.json`;
+};
+
+// Drops the oldest timestamped replays until at most MAX_SAVED_REPLAYS remain and all replays
+// together fit in MAX_STORED_REPLAYS_SIZE.
+export const pruneReplays = (files: FileEntry[]): FileEntry[] => {
+    const replays = files.filter(file => isReplayPath(file.path));
+    const saved = replays
+        .filter(file => file.path.startsWith(`${REPLAY_DIRECTORY}replay-`))
+        .sort((a, b) => a.path.localeCompare(b.path));
+    let totalSize = replays.reduce((sum, file) => sum + file.content.length, 0);
+    let count = saved.length;
+    const stale = new Set<string>();
+    for (const file of saved) {
+        if (count <= MAX_SAVED_REPLAYS && totalSize <= MAX_STORED_REPLAYS_SIZE) break;
+        stale.add(file.path);
+        totalSize -= file.content.length;
+        count--;
+    }
+    return stale.size > 0 ? files.filter(file => !stale.has(file.path)) : files;
+};
+
+export const parseReplay = (content: string): EngineReplay | null => {
+    try {
+        const replay = JSON.parse(content);
+        return replay && Array.isArray(replay.frames) && typeof replay.seed === 'number' ? replay as EngineReplay : null;
+    } catch {
+        return null;
+    }
+};
+
+// A short, human-readable account of a replay: its length and the input events in order.
+// This is what goes into auto-fix prompts; the frames themselves are far too long.
+export const describeReplay = (replay: EngineReplay, maxEvents = 40): string => {
+    const events: string[] = [];
+    let elapsed = 0;
+    let omitted = 0;
+    replay.frames.forEach((frame, index) => {
+        elapsed += frame.dt;
+        const at = `frame ${index} (${elapsed.toFixed(2)}s)`;
+        (frame.pressed || []).forEach(source => events.push(`${at}: pressed ${source}`));
+        (frame.released || []).forEach(source => events.push(`${at}: released ${source}`));
+    });
+    if (events.length > maxEvents) {
+        omitted = events.length - maxEvents;
+        events.splice(0, omitted);
+    }
+    const header = `${replay.frames.length} frames, ${elapsed.toFixed(2)}s of game time, seed ${replay.seed}.`;
+    const timeline = events.length > 0 ? events.join('\n') : 'No input was recorded.';
+    return `${header}\n${omitted > 0 ? `(${omitted} earlier input events omitted)\n` : ''}${timeline}`;
+};
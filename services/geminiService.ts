@@ -48,6 +48,17 @@ Schema:
 **4. Technology & Engine Mastery**
 - The \`window.Engine\` object is your primary tool. You must use its full capabilities: physics, audio, UI, particle effects, and camera controls.
 - Remember the engine supports loading textures and images directly from URLs. Use this feature extensively.
+- Structure menus, levels, pause and game-over screens as scenes: \`Engine.scenes.define(name, { enter, update, exit })\`, then \`Engine.scenes.go(name, params, { transition: 'fade' })\`. Use \`Engine.scenes.push('pause')\` / \`Engine.scenes.pop()\` for overlays. Entities created inside a scene are destroyed automatically when it exits, so never fake screens with flags inside \`Engine.onUpdate\`.
+- Keep behaviour modular with the ECS in \`Engine.world\`: attach data with \`Engine.world.addComponent(entity, 'Health', { hp: 3 })\` and register systems with \`Engine.world.addSystem({ name, query: ['Health'], order, each: (entity, components, deltaTime) => {} })\`. Put each component and its systems in its own \`scripts/*.js\` file.
+- Put movement that must be frame-rate independent (physics forces, character controllers, spawning on a timer) in \`Engine.onFixedUpdate((fixedDeltaTime) => ...)\`, which runs at a steady 60Hz before physics; keep rendering-only work in \`Engine.onUpdate\`. Use \`Engine.time.scale\` for slow motion, and \`Engine.time.pause()\` / \`resume()\` for pause menus. While paused, \`onUpdate\` still runs with a \`deltaTime\` of 0 so it can listen for the unpause key.
+- Never call \`Math.random()\`; use \`Engine.random\` (\`next()\`, \`range(min, max)\`, \`int(min, max)\`, \`chance(p)\`, \`pick(array)\`, \`shuffle(array)\`) so sessions can be replayed exactly. Use \`Engine.random.create('level-1')\` for procedural generation that must not change with gameplay. Read input only through \`Engine.input\`, never your own DOM key listeners, because recorded replays feed input through it. If a fix request includes a replay's input timeline, use it to reproduce the steps that led to the crash.
+- \`Engine.setData\`/\`getData\` only last until the page reloads. Keep high scores, unlocks and progress in \`Engine.save\` instead: declare \`Engine.save.schema({ version, defaults, migrations: { 2: (data) => ({ ...data, gems: 0 }) } })\` once, then use \`Engine.save.get(key, fallback)\`, \`set(key, value)\`, \`remove(key)\` and \`clear()\`. Values must be JSON-friendly. Use \`Engine.save.useSlot('slot2')\` and \`listSlots()\` for multiple save files. When the shape of saved data changes, bump \`version\` and add a migration rather than renaming keys silently.
+- If a request includes a performance profile, find the slow phase before changing code. A high \`update\` means game logic: avoid per-frame allocations, searches over every entity, and creating objects inside \`onUpdate\`. A high \`physics\` means too many bodies or mesh colliders. A high \`render\` means too many draw calls (use instancing in 3D) or particles. Frequent GC points to garbage created every frame. \`Engine.profiler.showOverlay()\` draws live stats in the game, and \`Engine.profiler.getStats()\` returns them.
+- When fixing collision or movement bugs, use \`Engine.debug\`. It is a no-op in exported builds, so these calls can stay in the code. \`Engine.debug.enable()\` outlines the bounds that collisions test, body velocities and the camera target. Call \`Engine.debug.line(from, to, color)\`, \`rect(spriteOrMeshOrBounds, color)\` and \`text(label, position, color)\` every frame from \`onUpdate\` to visualise custom checks such as ground probes or attack ranges.
+- Use \`Engine.tween(target, { to, duration, easing, delay, yoyo, repeat })\` for fades, bounces and slides instead of manual lerps. It returns a handle with \`pause()\`, \`resume()\`, \`cancel()\` and a \`promise\`; easing names are listed in \`Engine.easing\`.
+- Read input through actions so games work with keyboard, mouse, touch and gamepad: \`Engine.input.bind('fire', ['KeyJ', 'Mouse:Left', 'Gamepad:X', 'Touch:right-half'])\`, then \`isPressed\`, \`wasPressed\` and \`wasReleased\` (edge-detected per frame). The actions \`left\`, \`right\`, \`up\`, \`down\`, \`jump\` and \`pause\` are pre-bound, including a virtual joystick on the left half of touch screens; use \`Engine.input.getAxis('left', 'right')\` for analog movement and \`Engine.input.pointer\` for pointer screen/world coordinates. Never add raw DOM input listeners.
+- Load real sound files (URLs or project files such as \`audio/jump.wav\`) with \`Engine.audio.load(name, source)\`, then \`Engine.audio.play(name, { volume, pitch, loop, bus })\` on the \`'sfx'\` or \`'ui'\` bus. Use \`Engine.audio.playMusic(name, { crossfade })\` for background tracks and \`Engine.audio.setVolume(bus, value)\` / \`mute(bus)\` for options menus. Audio unlocks on the player's first click or key press, so start music from a title screen.
+- When no reliable sound URL is available, synthesize effects offline: \`Engine.audio.synth({ preset: 'jump' | 'coin' | 'hurt' | 'laser' | 'explosion' | 'powerup', seed, name: 'jump' })\` registers a sound you then \`play\` by name. Vary \`seed\` for distinct variants, or pass raw parameters (\`wave\`, \`frequency\`, \`frequencySlide\`, \`attack\`/\`sustain\`/\`punch\`/\`decay\`, \`vibratoDepth\`/\`vibratoSpeed\`, \`duty\`, \`lowPass\`/\`highPass\`, \`arpeggio\`).
 
 **5. Automated Error Fixing**
 - If you receive a prompt starting with \`[VIBECODE_FIX_REQUEST]\`, it means the user's code has thrown an error. This is a top-priority task.
@@ -62,11 +73,29 @@ const technologyInstructions = {
 **Technology Focus: 2D Canvas via Engine**
 - The \`window.Engine\` object provides a 2D rendering and interaction layer. See engine API in the provided \`index.html\`.
 - You can create sprites with images by providing an \`imageUrl\` property.
+- Animate characters with sprite sheets: pass \`spriteSheet: { frameWidth, frameHeight }\` (or \`{ atlas }\` / \`{ atlasUrl }\`) and \`animations: { run: { frames: [0, 1, 2], fps: 12, loop: true } }\`, then call \`sprite.play('run')\`. Sprites also support \`rotation\`, \`scaleX\`/\`scaleY\`, \`alpha\`, \`flipX\`/\`flipY\` and \`pivot\`.
+- Control draw order with \`layer\` and \`zIndex\` on sprites and tilemaps (change them at any time instead of recreating sprites). Configure layers with \`Engine.layers.define('background', { order: -10, scrollFactor: 0.3 })\` for parallax, and toggle them with \`Engine.layers.setVisible(name, visible)\`.
+- Build levels with \`Engine.create.tilemap({ tilesetUrl, tileSize, data, solid })\` instead of many platform sprites. Use \`Engine.physics.getTileCollisions(sprite)\` and \`Engine.physics.isSolidAt(x, y)\` for tile collisions.
+- Give moving sprites a \`body: { type: 'dynamic' | 'static' | 'kinematic', mass, friction, restitution }\` and let the engine integrate \`sprite.vx\`/\`sprite.vy\`. Set gravity with \`Engine.physics.setGravity(x, y)\`, check \`sprite.body.grounded\` before jumping, and react to hits with \`body.onCollisionEnter/onCollisionExit\`. Do not hand-roll gravity or push-out code.
+- Tag sprites with \`collisionLayer: 'enemy'\` and \`collisionMask: ['player', 'wall']\` to filter collisions. Use \`Engine.physics.queryRect(rect, { layers })\`, \`queryRadius(x, y, radius, { layers })\` and \`queryLayer(name)\` instead of looping over every sprite.
+- For glowing, dissolving or wavy sprites pass \`material: { fragmentShader, uniforms }\`. The shader samples the sprite with \`texture2D(tDiffuse, vUv)\` and receives \`time\` and \`resolution\` automatically; change \`sprite.material.uniforms\` at runtime. \`fragmentShader\` may be a \`.glsl\` project file path.
 `,
     '3D': `
 **Technology Focus: 3D with Three.js via Engine**
 - The \`window.Engine\` object is a wrapper around Three.js. See engine API in the provided \`index.html\`.
 - You can create meshes with textures by providing a \`textureUrl\` in the material properties.
+- Load real models with \`const hero = Engine.load.model('models/hero.gltf' or a URL, { position, scale })\`. The handle can be positioned immediately; after \`await hero.ready\`, play its clips with \`hero.play('Run', { loop, fadeIn })\` (names in \`hero.clips\`). \`ready\` never rejects; if the model failed to load, \`hero.error\` is set and the handle stays empty. Models stored as project files must be \`.gltf\` with embedded or relative buffers.
+- Tag meshes with \`collisionLayer\` and \`collisionMask\` to filter collisions. Use \`Engine.physics.queryBox(min, max, { layers })\`, \`queryRadius(center, radius, { layers })\` and \`queryLayer(name)\` instead of looping over every mesh.
+- Give meshes a \`physics: { type: 'dynamic' | 'static' | 'kinematic', shape: 'box' | 'sphere' | 'capsule' | 'mesh', mass, friction, restitution }\` option (or call \`Engine.physics.addBody(model, options)\`) and let the engine apply gravity and resolve contacts. Move characters by setting \`mesh.body.velocity\` or \`Engine.physics.applyImpulse(mesh, [x, y, z])\`, check \`mesh.body.grounded\` before jumping, and use \`body.onCollisionEnter/onCollisionExit\` for hits. Use \`shape: 'mesh'\` only for static level geometry. Do not hand-roll gravity or floor checks.
+- Aim and shoot with \`Engine.physics.raycast(origin, direction, { maxDistance, layers, ignore })\` and click on objects with \`Engine.input.pick({ layers })\`. Both return \`{ mesh, point, normal, distance }\` or \`null\`.
+- Pick a camera with \`Engine.camera.setMode('orbit' | 'firstPerson' | 'thirdPerson' | 'fixed' | 'rail', { target, distance, height, ... })\`. The engine handles mouse drag, pointer lock, touch drag, the right gamepad stick and wall avoidance, so never add raw mouse listeners for the camera. Move characters relative to the view with \`Engine.camera.getForward()\`/\`getRight()\`, and add impact with \`Engine.camera.shake(intensity, duration)\` and \`Engine.camera.fovKick(amount, duration)\`.
+- Set the look of the world with \`Engine.environment.set({ background, skybox, fog, grid, shadows, defaultLights })\`. \`skybox\` takes an equirectangular image, six cube-face images or \`{ top, bottom }\` gradient colours; \`fog\` takes \`{ color, near, far }\` or \`{ color, density }\`; \`shadows\` is \`false | 'basic' | 'hard' | 'soft'\`. Pass \`grid: false, defaultLights: false\` when the game provides its own ground and lighting.
+- \`Engine.create.light\` supports \`'ambient' | 'directional' | 'point' | 'spot' | 'hemisphere'\` with \`castShadow\`, \`target\`, \`angle\`, \`penumbra\` and \`groundColor\`. Shadows also need \`castShadow\`/\`receiveShadow\` on meshes and models.
+- Add screen effects with \`Engine.postfx.add('bloom' | 'vignette' | 'pixelate' | 'crt' | 'chromaticAberration', options)\`; the returned effect has \`enabled\`, \`set(options)\` and \`remove()\`. Register custom GLSL with \`Engine.postfx.register(name, { fragmentShader, uniforms })\` (sample \`tDiffuse\` at \`vUv\`; \`time\` and \`resolution\` are provided). Offer players a toggle via \`Engine.postfx.disable()\`/\`enable()\`. Never call \`renderer.render\` yourself.
+- For custom looks pass \`material: { vertexShader, fragmentShader, uniforms, transparent, side }\` to \`Engine.create.mesh\`. \`time\` and \`resolution\` uniforms update automatically, the default vertex shader provides \`vUv\` and \`vNormal\`, and shaders may live in \`.glsl\` project files (pass the path). Update values through \`mesh.material.uniforms.name.value\`.
+- For many identical objects (trees, bullets, asteroids) use \`const trees = Engine.create.instances({ geometry, material, color, count, positions })\` instead of a loop of \`create.mesh\`. Move instances via \`trees.get(i).position/rotation/scale\`, hide one with \`visible = false\` and tint it with \`setColor(color)\`; raycast hits report the \`instance\`.
+- Meshes created with the same \`material\`/\`color\`/\`textureUrl\` share one material. \`Engine.tween(mesh, { to: { material: { ... } } })\` gives that mesh its own copy automatically; pass \`uniqueMaterial: true\` to any mesh whose \`mesh.material\` you will change directly (e.g. a hit flash).
+- Make sounds come from the world with \`Engine.audio.attach(meshOrPosition, name, { refDistance, rolloff, loop, volume })\`. It works with loaded and synthesized sounds, follows the mesh, stops when the mesh is destroyed, and is heard from the camera's point of view. Use it for engines, enemies and explosions.
 `
 };
 
@@ -173,7 +202,8 @@ Engine.onUpdate((deltaTime) => {
 });
 `;
     
-    const threeImportMap = is3D ? `"three": "https://esm.sh/three@0.166.1"` : '';
+    const threeImportMap = is3D ? `"three": "https://esm.sh/three@0.166.1",
+            "three/addons/": "https://cdn.jsdelivr.net/npm/three@0.166.1/examples/jsm/"` : '';
 
     const indexHtml = `<!DOCTYPE html>
 <html lang="en">
@@ -29,6 +29,18 @@ export interface LogEntry {
     message: string;
 }
 
+// Save games written by a workspace's game through Engine.save (see saveSystem in lib/engine.ts).
+export interface SaveSlot {
+    version: number;
+    updatedAt: number;
+    data: Record<string, unknown>;
+}
+
+export interface SaveData {
+    format: number;
+    slots: Record<string, SaveSlot>;
+}
+
 export interface Workspace {
     id: string;
     name: string;
@@ -36,4 +48,46 @@ export interface Workspace {
     files: FileEntry[];
     chatHistory: ChatMessage[];
     lastModified: number;
+    saveData?: SaveData | null;
+}
+
+// A recorded play session as exported by the engine (see inputRecorder in lib/engine.ts).
+export interface ReplayFrame {
+    dt: number;
+    steps: number;
+    pressed?: string[];
+    released?: string[];
+    held?: [string, number][];
+    pointer?: (number | boolean)[];
+}
+
+export interface EngineReplay {
+    version: number;
+    engine: WorkspaceType;
+    seed: number;
+    recordedAt: string;
+    saves?: SaveData;
+    frames: ReplayFrame[];
+}
+
+export type ProfilePhase = 'input' | 'update' | 'physics' | 'render' | 'ui';
+
+// One batch of frame timings streamed by the engine's profiler (see frameProfiler in lib/engine.ts).
+// All times are milliseconds; frames holds [frame interval, time spent in engine and game code].
+export interface ProfileSample {
+    fps: number;
+    frameMs: number;
+    worstFrameMs: number;
+    workMs: number;
+    longFrames: number;
+    phases: Record<ProfilePhase, number>;
+    counts: Record<string, number>;
+    heapMB: number | null;
+    gcEvents: number;
+    frames: [number, number][];
+}
+
+export interface ChatAttachment {
+    label: string;
+    text: string;
 }